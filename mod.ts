@@ -2,19 +2,34 @@ export { VectorStore } from './src/vector_store.ts'
 export { HNSWIndex } from './src/hnsw_index.ts'
 export { InMemoryStorage } from './src/storage/in_memory_storage.ts'
 export { FileSystemStorage } from './src/storage/file_system_storage.ts'
+export { getMetric, registerMetric } from './src/metrics.ts'
+export type { MetricDefinition } from './src/metrics.ts'
 
 export type {
+  Aggregation,
+  CompactOptions,
+  CompactProgress,
   DistanceFunction,
   DistanceMetric,
   ExternalId,
+  FieldCondition,
+  FieldOperators,
   HNSWConfig,
   InsertItem,
+  JsonValue,
+  Metadata,
+  MetadataFilter,
+  Quantization,
+  SearchFilter,
   SearchOptions,
   SearchResult,
   ShardConfig,
   StorageBackend,
   Vector,
+  VectorInput,
+  VectorRecord,
   VectorStoreConfig,
+  VectorType,
 } from './src/types.ts'
 
 export { defaultHNSWConfig, defaultShardConfig } from './src/types.ts'
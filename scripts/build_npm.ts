@@ -6,7 +6,12 @@ const outDir = './.npm'
 await emptyDir(outDir)
 
 await build({
-  entryPoints: ['./mod.ts'],
+  entryPoints: [
+    './mod.ts',
+    // Worker modules are only referenced by URL, so they have to be listed to be emitted
+    { name: './workers/build_worker', path: './src/workers/build_worker.ts' },
+    { name: './workers/search_worker', path: './src/workers/search_worker.ts' },
+  ],
   outDir,
   shims: {
     deno: 'dev',
@@ -50,7 +55,7 @@ await build({
     engines: {
       node: '>=18.0.0',
     },
-    sideEffects: false,
+    sideEffects: ['./esm/src/workers/*_worker.js', './script/src/workers/*_worker.js'],
   },
   postBuild() {
     Deno.copyFileSync('./README.md', `${outDir}/README.md`)
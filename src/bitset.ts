@@ -13,6 +13,10 @@ export class Bitset {
     this.bits[i >> 5] |= 1 << (i & 31)
   }
 
+  unset(i: number): void {
+    this.bits[i >> 5] &= ~(1 << (i & 31))
+  }
+
   has(i: number): boolean {
     return (this.bits[i >> 5] & (1 << (i & 31))) !== 0
   }
@@ -1,5 +1,9 @@
+import { decodeFloat16, float16Table } from './float16.ts'
+import { popcount } from './quantization.ts'
 import type { DistanceFunction, DistanceMetric, Vector } from './types.ts'
 
+export { getDistanceFunction } from './metrics.ts'
+
 /**
  * Squared Euclidean (L2²) distance.
  * 4-wide unrolled loop for V8 optimization.
@@ -60,6 +64,30 @@ export function cosine(a: Vector, b: Vector): number {
   return 1 - dot / denom
 }
 
+/**
+ * Cosine distance from precomputed L2 norms of both vectors: only the dot
+ * product is computed. 4-wide unrolled loop.
+ */
+export function cosineWithNorms(a: Vector, b: Vector, normA: number, normB: number): number {
+  const len = a.length
+  let dot = 0
+  let i = 0
+
+  const limit = len - 3
+  for (; i < limit; i += 4) {
+    dot += a[i] * b[i] + a[i + 1] * b[i + 1] +
+      a[i + 2] * b[i + 2] + a[i + 3] * b[i + 3]
+  }
+
+  for (; i < len; i++) {
+    dot += a[i] * b[i]
+  }
+
+  const denom = normA * normB
+  if (denom === 0) return 1
+  return 1 - dot / denom
+}
+
 /**
  * Inner product distance: -dot(a, b).
  * Negated so lower = more similar (consistent with other metrics).
@@ -83,6 +111,74 @@ export function innerProduct(a: Vector, b: Vector): number {
   return -dot
 }
 
+/**
+ * Manhattan (L1) distance: sum of absolute differences.
+ * 4-wide unrolled loop.
+ */
+export function manhattan(a: Vector, b: Vector): number {
+  const len = a.length
+  let sum = 0
+  let i = 0
+
+  const limit = len - 3
+  for (; i < limit; i += 4) {
+    sum += Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) +
+      Math.abs(a[i + 2] - b[i + 2]) + Math.abs(a[i + 3] - b[i + 3])
+  }
+
+  for (; i < len; i++) {
+    sum += Math.abs(a[i] - b[i])
+  }
+
+  return sum
+}
+
+/** Chebyshev (L∞) distance: largest absolute difference in any dimension. */
+export function chebyshev(a: Vector, b: Vector): number {
+  let max = 0
+  for (let i = 0; i < a.length; i++) {
+    const d = Math.abs(a[i] - b[i])
+    if (d > max) max = d
+  }
+  return max
+}
+
+/** The 32-bit words behind a packed bit vector's float32 components. */
+function bitWords(v: Vector): Uint32Array {
+  return new Uint32Array(v.buffer, v.byteOffset, v.length)
+}
+
+/**
+ * Hamming distance between bit-packed vectors: the number of bits set in
+ * exactly one of them. Each dimension is a 32-bit word, so a 256-bit
+ * fingerprint takes 8 dimensions (see toMetricVector for how input is read).
+ */
+export function hamming(a: Vector, b: Vector): number {
+  const x = bitWords(a)
+  const y = bitWords(b)
+  let count = 0
+  for (let i = 0; i < x.length; i++) {
+    count += popcount(x[i] ^ y[i])
+  }
+  return count
+}
+
+/**
+ * Jaccard (Tanimoto) distance between bit-packed vectors: 1 - |a ∩ b| / |a ∪ b|,
+ * with each dimension a 32-bit word as for `hamming`. Two empty vectors are identical.
+ */
+export function jaccard(a: Vector, b: Vector): number {
+  const x = bitWords(a)
+  const y = bitWords(b)
+  let both = 0
+  let either = 0
+  for (let i = 0; i < x.length; i++) {
+    both += popcount(x[i] & y[i])
+    either += popcount(x[i] | y[i])
+  }
+  return either === 0 ? 0 : 1 - both / either
+}
+
 /**
  * Compute the L2 norm of a vector. Used for the norm cache.
  * 4-wide unrolled.
@@ -105,16 +201,96 @@ export function computeNorm(v: Vector): number {
   return Math.sqrt(sum)
 }
 
-/** Returns the distance function for the given metric. */
-export function getDistanceFunction(metric: DistanceMetric): DistanceFunction {
+/**
+ * Distance between a float32 query and a vector stored as half-precision bits
+ * at `offset` of `halves`, decoded while scanning.
+ */
+export type Float16DistanceFunction = (query: Vector, halves: Uint16Array, offset: number) => number
+
+/** Squared Euclidean distance against a float16 vector. */
+export function euclideanFloat16(query: Vector, halves: Uint16Array, offset: number): number {
+  const table = float16Table()
+  const len = query.length
+  let sum = 0
+  let i = 0
+
+  const limit = len - 3
+  for (; i < limit; i += 4) {
+    const d0 = query[i] - table[halves[offset + i]]
+    const d1 = query[i + 1] - table[halves[offset + i + 1]]
+    const d2 = query[i + 2] - table[halves[offset + i + 2]]
+    const d3 = query[i + 3] - table[halves[offset + i + 3]]
+    sum += d0 * d0 + d1 * d1 + d2 * d2 + d3 * d3
+  }
+
+  for (; i < len; i++) {
+    const d = query[i] - table[halves[offset + i]]
+    sum += d * d
+  }
+
+  return sum
+}
+
+/** Cosine distance against a float16 vector. */
+export function cosineFloat16(query: Vector, halves: Uint16Array, offset: number): number {
+  const table = float16Table()
+  const len = query.length
+  let dot = 0
+  let normQ = 0
+  let normB = 0
+
+  for (let i = 0; i < len; i++) {
+    const q = query[i]
+    const b = table[halves[offset + i]]
+    dot += q * b
+    normQ += q * q
+    normB += b * b
+  }
+
+  const denom = Math.sqrt(normQ * normB)
+  if (denom === 0) return 1
+  return 1 - dot / denom
+}
+
+/** Negated inner product against a float16 vector. */
+export function innerProductFloat16(query: Vector, halves: Uint16Array, offset: number): number {
+  const table = float16Table()
+  const len = query.length
+  let dot = 0
+  let i = 0
+
+  const limit = len - 3
+  for (; i < limit; i += 4) {
+    dot += query[i] * table[halves[offset + i]] + query[i + 1] * table[halves[offset + i + 1]] +
+      query[i + 2] * table[halves[offset + i + 2]] + query[i + 3] * table[halves[offset + i + 3]]
+  }
+
+  for (; i < len; i++) {
+    dot += query[i] * table[halves[offset + i]]
+  }
+
+  return -dot
+}
+
+/** Returns the float16 distance function for the given metric. */
+export function getFloat16DistanceFunction(metric: DistanceMetric): Float16DistanceFunction {
   switch (metric) {
     case 'euclidean':
-      return euclidean
+      return euclideanFloat16
     case 'cosine':
-      return cosine
+      return cosineFloat16
     case 'inner_product':
-      return innerProduct
+      return innerProductFloat16
     default:
       throw new Error(`Unknown distance metric: ${metric}`)
   }
 }
+
+/** Float16 distance for a metric without a specialized kernel: decode, then measure. */
+export function decodingFloat16(distance: DistanceFunction): Float16DistanceFunction {
+  let scratch = new Float32Array(0)
+  return (query, halves, offset) => {
+    if (scratch.length !== query.length) scratch = new Float32Array(query.length)
+    return distance(query, decodeFloat16(halves, offset, query.length, scratch))
+  }
+}
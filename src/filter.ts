@@ -0,0 +1,149 @@
+import type { ExternalId, FieldCondition, FieldOperators, JsonValue, Metadata, MetadataFilter, SearchFilter } from './types.ts'
+
+/** A compiled metadata filter. */
+export type MetadataPredicate = (metadata: Metadata | undefined) => boolean
+
+/** True if the filter is a structured metadata filter rather than an ID callback. */
+export function isMetadataFilter(
+  filter: SearchFilter,
+): filter is MetadataFilter {
+  return typeof filter !== 'function'
+}
+
+/**
+ * Compile a structured filter into a predicate over metadata.
+ * Field keys may use dots to reach nested objects ("author.name").
+ * Throws on unknown operators so malformed filters fail before the search runs.
+ */
+export function compileFilter(filter: MetadataFilter): MetadataPredicate {
+  const clauses: MetadataPredicate[] = []
+
+  for (const key of Object.keys(filter)) {
+    const value = filter[key]
+    if (value === undefined) continue
+
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(value)) throw new Error(`${key} expects an array of filters`)
+      const parts = (value as MetadataFilter[]).map(compileFilter)
+      clauses.push(
+        key === '$and' ? (m) => parts.every((p) => p(m)) : (m) => parts.some((p) => p(m)),
+      )
+    } else if (key === '$not') {
+      const inner = compileFilter(value as MetadataFilter)
+      clauses.push((m) => !inner(m))
+    } else if (key.startsWith('$')) {
+      throw new Error(`Unknown filter operator: ${key}`)
+    } else {
+      clauses.push(compileField(key.split('.'), value as FieldCondition))
+    }
+  }
+
+  if (clauses.length === 1) return clauses[0]
+  return (m) => clauses.every((c) => c(m))
+}
+
+/** Adapt a search filter to a predicate over (external ID, metadata). */
+export function toPredicate(
+  filter: SearchFilter,
+): (id: ExternalId, metadata: Metadata | undefined) => boolean {
+  if (isMetadataFilter(filter)) {
+    const predicate = compileFilter(filter)
+    return (_id, metadata) => predicate(metadata)
+  }
+  return (id) => filter(id)
+}
+
+function compileField(path: string[], condition: FieldCondition): MetadataPredicate {
+  // A bare value (or array) is shorthand for $eq
+  if (!isOperatorObject(condition)) {
+    const expected = condition as JsonValue
+    return (m) => matchesEq(resolve(m, path), expected)
+  }
+
+  const checks: ((value: JsonValue | undefined) => boolean)[] = []
+  for (const [op, operand] of Object.entries(condition)) {
+    if (operand === undefined) continue
+    switch (op) {
+      case '$eq':
+        checks.push((v) => matchesEq(v, operand as JsonValue))
+        break
+      case '$ne':
+        checks.push((v) => !matchesEq(v, operand as JsonValue))
+        break
+      case '$in':
+        if (!Array.isArray(operand)) throw new Error(`${op} expects an array of values`)
+        checks.push((v) => (operand as JsonValue[]).some((o) => matchesEq(v, o)))
+        break
+      case '$nin':
+        if (!Array.isArray(operand)) throw new Error(`${op} expects an array of values`)
+        checks.push((v) => !(operand as JsonValue[]).some((o) => matchesEq(v, o)))
+        break
+      case '$gt':
+        checks.push((v) => compare(v, operand as number | string) > 0)
+        break
+      case '$gte':
+        checks.push((v) => compare(v, operand as number | string) >= 0)
+        break
+      case '$lt':
+        checks.push((v) => compare(v, operand as number | string) < 0)
+        break
+      case '$lte':
+        checks.push((v) => compare(v, operand as number | string) <= 0)
+        break
+      case '$exists':
+        checks.push((v) => (v !== undefined) === operand)
+        break
+      default:
+        throw new Error(`Unknown filter operator: ${op}`)
+    }
+  }
+
+  return (m) => {
+    const value = resolve(m, path)
+    return checks.every((check) => check(value))
+  }
+}
+
+function isOperatorObject(condition: FieldCondition): condition is FieldOperators {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return false
+  }
+  const keys = Object.keys(condition)
+  return keys.length > 0 && keys.every((k) => k.startsWith('$'))
+}
+
+function resolve(metadata: Metadata | undefined, path: string[]): JsonValue | undefined {
+  let current: JsonValue | undefined = metadata
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object' || Array.isArray(current)) {
+      return undefined
+    }
+    current = current[segment]
+  }
+  return current
+}
+
+/** Equality; a scalar also matches an array field that contains it. */
+function matchesEq(value: JsonValue | undefined, expected: JsonValue): boolean {
+  if (value === undefined) return false
+  if (Array.isArray(value) && !Array.isArray(expected)) {
+    return value.some((v) => deepEqual(v, expected))
+  }
+  return deepEqual(value, expected)
+}
+
+function deepEqual(a: JsonValue, b: JsonValue): boolean {
+  if (a === b) return true
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+    return false
+  }
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/** Ordering for range operators. Mismatched or missing types never match. */
+function compare(value: JsonValue | undefined, operand: number | string): number {
+  if (typeof value !== typeof operand || (typeof value !== 'number' && typeof value !== 'string')) {
+    return NaN
+  }
+  return value < operand ? -1 : value > operand ? 1 : 0
+}
@@ -0,0 +1,69 @@
+const f32 = new Float32Array(1)
+const u32 = new Uint32Array(f32.buffer)
+
+let decodeTable: Float32Array | null = null
+
+/** Convert a number to IEEE 754 half-precision bits, rounding to nearest even. */
+export function toFloat16Bits(value: number): number {
+  f32[0] = value
+  const x = u32[0]
+  const sign = (x >>> 16) & 0x8000
+  const exp = (x >>> 23) & 0xFF
+  const mant = x & 0x7FFFFF
+
+  // Infinity and NaN
+  if (exp === 0xFF) return sign | 0x7C00 | (mant !== 0 ? 0x200 : 0)
+
+  const e = exp - 127 + 15
+  if (e >= 0x1F) return sign | 0x7C00
+
+  if (e <= 0) {
+    // Subnormal half, or zero when too small
+    if (e < -10) return sign
+    const full = mant | 0x800000
+    const shift = 14 - e
+    let half = full >>> shift
+    const rem = full & ((1 << shift) - 1)
+    const mid = 1 << (shift - 1)
+    if (rem > mid || (rem === mid && (half & 1) !== 0)) half++
+    return sign | half
+  }
+
+  // A carry out of the mantissa rounds up into the exponent, up to infinity
+  let half = (e << 10) | (mant >>> 13)
+  const rem = mant & 0x1FFF
+  if (rem > 0x1000 || (rem === 0x1000 && (half & 1) !== 0)) half++
+  return sign | half
+}
+
+/** Float32 value of every half-precision bit pattern, built on first use. */
+export function float16Table(): Float32Array {
+  if (decodeTable) return decodeTable
+  decodeTable = new Float32Array(0x10000)
+  for (let h = 0; h < 0x10000; h++) {
+    const sign = (h & 0x8000) !== 0 ? -1 : 1
+    const exp = (h >>> 10) & 0x1F
+    const mant = h & 0x3FF
+    if (exp === 0) decodeTable[h] = sign * mant * 2 ** -24
+    else if (exp === 0x1F) decodeTable[h] = mant !== 0 ? NaN : sign * Infinity
+    else decodeTable[h] = sign * (1 + mant / 1024) * 2 ** (exp - 15)
+  }
+  return decodeTable
+}
+
+/** Write a vector as half-precision bits into `halves` at `offset`. */
+export function encodeFloat16(vec: ArrayLike<number>, halves: Uint16Array, offset: number): void {
+  for (let i = 0; i < vec.length; i++) halves[offset + i] = toFloat16Bits(vec[i])
+}
+
+/** Widen half-precision bits back to a float32 vector. */
+export function decodeFloat16(
+  halves: Uint16Array,
+  offset: number,
+  dim: number,
+  out: Float32Array = new Float32Array(dim),
+): Float32Array {
+  const table = float16Table()
+  for (let i = 0; i < dim; i++) out[i] = table[halves[offset + i]]
+  return out
+}
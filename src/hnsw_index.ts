@@ -1,15 +1,39 @@
 import { BinaryHeap } from './binary_heap.ts'
 import { Bitset } from './bitset.ts'
-import { computeNorm, getDistanceFunction } from './distances.ts'
+import {
+  computeNorm,
+  cosineWithNorms,
+  decodingFloat16,
+  euclidean,
+  type Float16DistanceFunction,
+  getFloat16DistanceFunction,
+} from './distances.ts'
+import { decodeFloat16, encodeFloat16 } from './float16.ts'
+import { toPredicate } from './filter.ts'
+import { getMetric, toMetricVector } from './metrics.ts'
+import {
+  binaryWords,
+  decodingInt8,
+  dequantizeInt8,
+  getInt8DistanceFunction,
+  hamming,
+  type Int8DistanceFunction,
+  packBinary,
+  quantizeInt8,
+} from './quantization.ts'
+import { adcLookup, computeADCTable, decodePQ, encodePQ, trainPQ } from './pq.ts'
 import { createRng } from './random.ts'
 import {
   type DistanceFunction,
   type ExternalId,
   type HNSWConfig,
   type InternalId,
+  type Metadata,
+  type SearchFilter,
   type SearchResult,
   SENTINEL,
   type Vector,
+  type VectorInput,
 } from './types.ts'
 
 interface Candidate {
@@ -20,18 +44,83 @@ interface Candidate {
 const MIN_CMP = (a: Candidate, b: Candidate) => a.distance - b.distance
 const MAX_CMP = (a: Candidate, b: Candidate) => b.distance - a.distance
 
+/** Raw internal state of an index, as exchanged with the serializer. */
+export interface IndexState {
+  vectors: Float32Array
+  halves: Uint16Array
+  norms: Float32Array
+  codes: Int8Array
+  scales: Float32Array
+  pqCodebook: Float32Array
+  pqCodes: Uint8Array
+  bits: Uint32Array
+  levels: Uint8Array
+  adjacency: Uint32Array[]
+  neighborCounts: Uint8Array[]
+  internalToExternal: string[]
+  metadata: (Metadata | undefined)[]
+  deleted: Bitset
+  deletedCount: number
+  count: number
+  capacity: number
+  entryPointId: number
+  maxLevel: number
+  maxNorm: number
+}
+
 const INITIAL_CAPACITY = 1024
 const GROWTH_FACTOR = 1.5
 
+// Filters accepting less than this fraction of nodes are answered by a linear scan
+const BRUTE_FORCE_SELECTIVITY = 0.02
+// Nodes sampled to estimate how selective a filter is
+const SELECTIVITY_SAMPLES = 256
+
+// Metrics with specialized int8, float16 and PQ kernels; others decode first
+const KERNEL_METRICS = new Set(['euclidean', 'cosine', 'inner_product'])
+
+// How far compaction walks through chains of removed nodes to find live replacements
+const MAX_REPAIR_HOPS = 3
+
 export class HNSWIndex {
   readonly config: HNSWConfig
   readonly distanceFn: DistanceFunction
+  private readonly preprocess: ((vector: Vector) => Vector) | null
 
   // Flat typed arrays for cache-friendly access
   private vectors: Float32Array
   private norms: Float32Array
   private levels: Uint8Array
 
+  // vectorType float16: node i is halves[i * dim ...] as half-precision bits,
+  // and `vectors` is empty
+  private halves: Uint16Array
+  private readonly float16DistanceFn: Float16DistanceFunction | null
+
+  // int8 quantization: node i is approximately codes[i * dim + d] * scales[i].
+  // `vectors` is then empty unless float32 copies are kept for reranking.
+  private codes: Int8Array
+  private scales: Float32Array
+  private readonly int8DistanceFn: Int8DistanceFunction | null
+  private storesFloats: boolean
+
+  // Product quantization: node i is coded as pqCodes[i * pqSubspaces + s], a
+  // centroid of subspace s in pqCodebook. The codebook stays empty, and vectors
+  // are stored as float32, until pqTrainingSize vectors have been inserted.
+  private pqCodebook: Float32Array
+  private pqCodes: Uint8Array
+  private pqCentroids: number
+
+  // Binary quantization: node i's sign bits are bits[i * binaryWords ...].
+  // Traversal uses Hamming distance; float32 vectors are kept for reranking.
+  private bits: Uint32Array
+  private readonly binaryWords: number
+
+  // MIPS: the largest norm inserted so far. Node i's augmented coordinate,
+  // sqrt(maxNorm² - norms[i]²), is derived on the fly, so it stays consistent
+  // as maxNorm grows.
+  private maxNorm = 0
+
   // adjacency[layer] is flat: node i's neighbors at [i * maxNeighbors, (i+1) * maxNeighbors)
   private adjacency: Uint32Array[]
   private neighborCounts: Uint8Array[]
@@ -39,6 +128,15 @@ export class HNSWIndex {
   private deletedSet: Bitset
   private internalToExternal: string[]
   private externalToInternal: Map<string, number>
+  private metadata: (Metadata | undefined)[]
+
+  // Slots released by eager deletes, reused by later inserts.
+  // Their external ID is '' and their tombstone bit stays set until reuse.
+  private freeSlots: InternalId[] = []
+  // inLinks[layer][i]: how many nodes list node i as a neighbor. Built by the
+  // first eager delete, then kept current by setNeighbors() and addConnection();
+  // dropped when the arrays are reallocated
+  private inLinks: Uint32Array[] | null = null
 
   private entryPointId: InternalId
   private maxLevel: number
@@ -52,34 +150,92 @@ export class HNSWIndex {
   private _visited: Bitset
   private _candidates: BinaryHeap<Candidate>
   private _results: BinaryHeap<Candidate>
-
-  constructor(config: HNSWConfig) {
+  private _decoded: Float32Array
+  private _decodedPair: Float32Array
+  // Precomputed forms of the query currently being searched: its norm, and a
+  // PQ lookup table or sign bits
+  private _preparedQuery: Vector | null = null
+  private _queryNorm = 0
+  private _adcTable: Float32Array
+  private _queryBits: Uint32Array
+
+  /** `initialCapacity` preallocates room for that many nodes; the index still grows past it. */
+  constructor(config: HNSWConfig, initialCapacity = INITIAL_CAPACITY) {
     this.config = config
-    this.distanceFn = getDistanceFunction(config.metric)
+    const metric = getMetric(config.metric)
+    this.distanceFn = metric.distance
+    this.preprocess = metric.preprocess ?? null
     this.rng = createRng(config.seed)
 
-    this.capacity = INITIAL_CAPACITY
+    this.capacity = Math.max(1, initialCapacity)
     this.count = 0
     this._deletedCount = 0
     this.entryPointId = -1
     this.maxLevel = -1
 
+    if (!['none', 'int8', 'pq', 'binary'].includes(config.quantization)) {
+      throw new Error(`Unknown quantization: ${config.quantization}`)
+    }
+    if (config.quantization === 'pq' && config.dimensions % config.pqSubspaces !== 0) {
+      throw new Error(`pqSubspaces (${config.pqSubspaces}) must divide dimensions (${config.dimensions})`)
+    }
+    if (config.vectorType !== 'float32' && config.vectorType !== 'float16') {
+      throw new Error(`Unknown vector type: ${config.vectorType}`)
+    }
+    if (config.vectorType === 'float16' && config.quantization !== 'none') {
+      throw new Error(`vectorType float16 requires quantization none, got ${config.quantization}`)
+    }
+    if (config.mips && (config.metric !== 'inner_product' || config.quantization !== 'none' || config.vectorType !== 'float32')) {
+      throw new Error('mips requires metric inner_product, quantization none and vectorType float32')
+    }
+    if (metric.packedBits && (config.quantization !== 'none' || config.vectorType !== 'float32')) {
+      throw new Error(`Metric ${config.metric} reads packed bits and requires quantization none and vectorType float32`)
+    }
+    const kernels = KERNEL_METRICS.has(config.metric)
+    if (config.quantization === 'pq' && !kernels) {
+      throw new Error(`Product quantization supports euclidean, cosine and inner_product, not ${config.metric}`)
+    }
+    this.float16DistanceFn = config.vectorType !== 'float16'
+      ? null
+      : kernels
+      ? getFloat16DistanceFunction(config.metric)
+      : decodingFloat16(this.distanceFn)
+    this.int8DistanceFn = config.quantization !== 'int8'
+      ? null
+      : kernels
+      ? getInt8DistanceFunction(config.metric)
+      : decodingInt8(this.distanceFn)
+    this.storesFloats = (this.int8DistanceFn === null || config.rerank) && this.float16DistanceFn === null
+
     const dim = config.dimensions
-    this.vectors = new Float32Array(this.capacity * dim)
+    this.vectors = new Float32Array(this.storesFloats ? this.capacity * dim : 0)
+    this.halves = new Uint16Array(this.float16DistanceFn ? this.capacity * dim : 0)
     this.norms = new Float32Array(this.capacity)
     this.levels = new Uint8Array(this.capacity)
+    this.codes = new Int8Array(this.int8DistanceFn ? this.capacity * dim : 0)
+    this.scales = new Float32Array(this.int8DistanceFn ? this.capacity : 0)
+    this.pqCodebook = new Float32Array(0)
+    this.pqCodes = new Uint8Array(0)
+    this.pqCentroids = 0
+    this.binaryWords = config.quantization === 'binary' ? binaryWords(dim) : 0
+    this.bits = new Uint32Array(this.capacity * this.binaryWords)
 
     this.adjacency = []
     this.neighborCounts = []
 
     this.deletedSet = new Bitset(this.capacity)
     this.internalToExternal = []
+    this.metadata = []
     this.externalToInternal = new Map()
 
     // Pooled search structures
     this._visited = new Bitset(this.capacity)
     this._candidates = new BinaryHeap<Candidate>(MIN_CMP)
     this._results = new BinaryHeap<Candidate>(MAX_CMP)
+    this._decoded = new Float32Array(dim)
+    this._decodedPair = new Float32Array(dim)
+    this._adcTable = new Float32Array(0)
+    this._queryBits = new Uint32Array(this.binaryWords)
 
     // Pre-allocate layer 0
     this.ensureLayer(0)
@@ -105,35 +261,34 @@ export class HNSWIndex {
     return this.config.dimensions
   }
 
-  /** Insert a vector with an external ID. */
-  insert(id: ExternalId, vector: Vector | number[]): void {
-    if (this.externalToInternal.has(id)) {
-      throw new Error(`Duplicate ID: ${id}`)
+  /** Insert a vector with an external ID. A tombstoned ID is revived in place. */
+  insert(id: ExternalId, vector: VectorInput, metadata?: Metadata): void {
+    const existing = this.externalToInternal.get(id)
+    if (existing !== undefined) {
+      if (!this.deletedSet.has(existing)) {
+        throw new Error(`Duplicate ID: ${id}`)
+      }
+      this.upsert(id, vector, metadata)
+      return
     }
 
-    const vec = vector instanceof Float32Array ? vector : new Float32Array(vector)
-    if (vec.length !== this.config.dimensions) {
-      throw new Error(
-        `Vector dimension mismatch: expected ${this.config.dimensions}, got ${vec.length}`,
-      )
-    }
+    const vec = this.toVector(vector)
 
-    // Grow if needed
-    if (this.count >= this.capacity) {
-      this.grow()
+    let internalId: InternalId
+    if (this.freeSlots.length > 0) {
+      internalId = this.freeSlots.pop()!
+      this.deletedSet.unset(internalId)
+      this._deletedCount--
+    } else {
+      // Grow if needed
+      if (this.count >= this.capacity) {
+        this.grow()
+      }
+      internalId = this.count
+      this.count++
     }
 
-    const internalId = this.count
-    this.count++
-
-    // Store vector
-    const dim = this.config.dimensions
-    this.vectors.set(vec, internalId * dim)
-
-    // Cache norm for cosine
-    if (this.config.metric === 'cosine') {
-      this.norms[internalId] = computeNorm(vec)
-    }
+    this.storeVector(internalId, vec)
 
     // Assign random level
     const level = this.randomLevel()
@@ -142,6 +297,7 @@ export class HNSWIndex {
     // ID mapping
     this.internalToExternal[internalId] = id
     this.externalToInternal.set(id, internalId)
+    this.metadata[internalId] = metadata
 
     // Ensure all layers up to this level exist
     for (let l = 0; l <= level; l++) {
@@ -155,119 +311,125 @@ export class HNSWIndex {
       return
     }
 
-    let currObj = this.entryPointId
-    let currDist = this.distance(internalId, currObj)
+    this.connectNode(internalId, level)
 
-    // Phase 1: Greedy descent from top layer to level+1
-    for (let l = this.maxLevel; l > level; l--) {
-      let changed = true
-      while (changed) {
-        changed = false
-        const neighbors = this.getNeighbors(currObj, l)
-        for (let i = 0; i < neighbors.length; i++) {
-          const neighbor = neighbors[i]
-          if (neighbor === SENTINEL) break
-          const d = this.distance(internalId, neighbor)
-          if (d < currDist) {
-            currObj = neighbor
-            currDist = d
-            changed = true
-          }
-        }
-      }
+    // Update entry point if new node has highest level
+    if (level > this.maxLevel) {
+      this.entryPointId = internalId
+      this.maxLevel = level
     }
+  }
 
-    // Phase 2: Insert at each layer from min(level, maxLevel) down to 0
-    const topInsertLevel = Math.min(level, this.maxLevel)
-    for (let l = topInsertLevel; l >= 0; l--) {
-      const maxNeighbors = l === 0 ? this.config.Mmax0 : this.config.M
+  /**
+   * Insert a vector, or replace the vector of an existing ID and repair the
+   * graph around it (hnswlib's updatePoint). Tombstoned IDs are revived.
+   * The metadata is replaced as well, and cleared when omitted.
+   */
+  upsert(id: ExternalId, vector: VectorInput, metadata?: Metadata): void {
+    const internalId = this.externalToInternal.get(id)
+    if (internalId === undefined) {
+      this.insert(id, vector, metadata)
+      return
+    }
 
-      // Beam search to find candidates
-      const candidates = this.searchLayer(
-        internalId,
-        currObj,
-        this.config.efConstruction,
-        l,
-      )
+    const vec = this.toVector(vector)
+    if (this.deletedSet.has(internalId)) {
+      this.deletedSet.unset(internalId)
+      this._deletedCount--
+    }
 
-      // Select neighbors
-      const selected = this.config.useHeuristic
-        ? this.selectNeighborsHeuristic(candidates, maxNeighbors)
-        : this.selectNeighborsSimple(candidates, maxNeighbors)
+    this.storeVector(internalId, vec)
+    this.metadata[internalId] = metadata
 
-      // Connect internalId to selected neighbors
-      this.setNeighbors(internalId, l, selected)
+    // Sole node: no edges to repair
+    if (this.count === 1) return
 
-      // Add bidirectional connections
-      for (const neighbor of selected) {
-        this.addConnection(neighbor.id, internalId, l)
-      }
-
-      // Use the nearest candidate as entry for next layer
-      if (candidates.length > 0) {
-        currObj = candidates[0].id
-        currDist = candidates[0].distance
-      }
-    }
-
-    // Update entry point if new node has highest level
-    if (level > this.maxLevel) {
-      this.entryPointId = internalId
-      this.maxLevel = level
-    }
+    this.refreshNeighborhood(internalId)
+    this.connectNode(internalId, this.levels[internalId])
   }
 
-  /** Search for k nearest neighbors of a query vector. */
+  /**
+   * Search for k nearest neighbors of a query vector.
+   * `filter` is either an ID callback or a structured filter evaluated against stored metadata.
+   */
   search(
-    query: Vector | number[],
+    query: VectorInput,
     k: number,
     efSearch?: number,
-    filter?: (id: ExternalId) => boolean,
+    filter?: SearchFilter,
   ): SearchResult[] {
     if (this.entryPointId === -1) return []
 
-    const q = query instanceof Float32Array ? query : new Float32Array(query)
+    const q = this.toQuery(query)
     const ef = Math.max(efSearch ?? this.config.efSearch, k)
-
-    let currObj = this.entryPointId
-    let currDist = this.distanceToQuery(q, currObj)
+    this._preparedQuery = null
+    const accepts = this.acceptor(filter)
+    // Binary codes rerank a full ef candidates from a scan, as after a graph walk
+    const scanned = this.binaryWords > 0 ? ef : k
+
+    // Very selective filters: scanning the few matches beats walking the graph
+    if (filter && accepts && this.estimateSelectivity(accepts) < BRUTE_FORCE_SELECTIVITY) {
+      return this.toResults(this.rerank(q, this.bruteForceSearch(q, scanned, accepts)), k)
+    }
 
     // Phase 1: Greedy descent from top to layer 1
-    for (let l = this.maxLevel; l >= 1; l--) {
-      let changed = true
-      while (changed) {
-        changed = false
-        const neighbors = this.getNeighbors(currObj, l)
-        for (let i = 0; i < neighbors.length; i++) {
-          const neighbor = neighbors[i]
-          if (neighbor === SENTINEL) break
-          const d = this.distanceToQuery(q, neighbor)
-          if (d < currDist) {
-            currObj = neighbor
-            currDist = d
-            changed = true
-          }
-        }
-      }
+    const entry = this.descend(q)
+
+    // Phase 2: Beam search at layer 0; only accepted nodes fill result slots
+    let candidates = this.searchLayerByQuery(q, entry, ef, 0, accepts ?? undefined)
+
+    // A filtered walk that ran out of nodes before finding k matches can miss
+    // poorly connected ones. Without a filter, a short result only means
+    // tombstones or a small index, which a scan would not improve
+    if (filter && accepts && candidates.length < k) {
+      candidates = this.bruteForceSearch(q, scanned, accepts)
     }
 
-    // Phase 2: Beam search at layer 0
-    const candidates = this.searchLayerByQuery(q, currObj, ef, 0)
+    return this.toResults(this.rerank(q, candidates), k)
+  }
+
+  /**
+   * Find every vector within `radius` of the query, nearest first.
+   * The radius is in the metric's own units: squared L2, 1 - cos, or -dot.
+   */
+  rangeSearch(
+    query: VectorInput,
+    radius: number,
+    efSearch?: number,
+    filter?: SearchFilter,
+  ): SearchResult[] {
+    if (this.entryPointId === -1) return []
+
+    const q = this.toQuery(query)
+    const ef = efSearch ?? this.config.efSearch
+    const accepts = this.acceptor(filter)
+    this._preparedQuery = null
 
-    // Filter and collect top-k
-    const results: SearchResult[] = []
-    for (const c of candidates) {
-      if (this.deletedSet.has(c.id)) continue
-      const extId = this.internalToExternal[c.id]
-      if (filter && !filter(extId)) continue
-      results.push({ id: extId, distance: c.distance })
-      if (results.length === k) break
+    // The radius does not bound Hamming distances: binary codes gather a plain
+    // candidate set and the radius applies after reranking
+    const binary = this.binaryWords > 0
+    if (filter && accepts && this.estimateSelectivity(accepts) < BRUTE_FORCE_SELECTIVITY) {
+      return this.withinRadius(this.rerank(q, this.bruteForceRange(q, binary ? Infinity : radius, accepts)), radius)
     }
 
-    return results
+    const entry = this.descend(q)
+    if (!binary) return this.withinRadius(this.rerank(q, this.searchLayerByQuery(q, entry, ef, 0, accepts ?? undefined, radius)), radius)
+
+    // Hamming order only roughly follows the metric, so more vectors within the
+    // radius may lie past a full beam: it doubles until that finds no new ones
+    let found = -1
+    for (let beam = ef;; beam *= 2) {
+      const candidates = this.rerank(q, this.searchLayerByQuery(q, entry, beam, 0, accepts ?? undefined))
+      const results = this.withinRadius(candidates, radius)
+      if (results.length === found || candidates.length < beam || beam >= this.size) return results
+      found = results.length
+    }
   }
 
-  /** Mark a vector as deleted (lazy tombstone). */
+  /**
+   * Delete a vector. By default it stays in the graph as a routing tombstone;
+   * with `eagerDelete` its edges are repaired and its slot is recycled.
+   */
   delete(id: ExternalId): boolean {
     const internalId = this.externalToInternal.get(id)
     if (internalId === undefined) return false
@@ -275,6 +437,10 @@ export class HNSWIndex {
 
     this.deletedSet.set(internalId)
     this._deletedCount++
+    this.metadata[internalId] = undefined
+    if (this.config.eagerDelete) {
+      this.unlinkNode(internalId)
+    }
     return true
   }
 
@@ -291,35 +457,173 @@ export class HNSWIndex {
     if (internalId === undefined) return null
     if (this.deletedSet.has(internalId)) return null
     const dim = this.config.dimensions
+    if (this.float16DistanceFn) {
+      return decodeFloat16(this.halves, internalId * dim, dim)
+    }
+    if (!this.storesFloats) {
+      // Only the quantized codes are kept: return the reconstruction
+      if (this.pqCentroids > 0) {
+        const subspaces = this.config.pqSubspaces
+        return decodePQ(this.pqCodes, internalId * subspaces, this.pqCodebook, subspaces, dim)
+      }
+      return dequantizeInt8(this.codes, internalId * dim, dim, this.scales[internalId])
+    }
     return this.vectors.slice(internalId * dim, (internalId + 1) * dim)
   }
 
-  /** Rebuild the index without deleted nodes. Returns a new compact index. */
+  /**
+   * Distance from a query to one stored vector, by the metric itself (decoding
+   * quantized vectors first). Null if the ID is missing.
+   */
+  distanceTo(query: VectorInput, id: ExternalId): number | null {
+    const vector = this.getVector(id)
+    return vector ? this.distanceFn(this.toQuery(query), vector) : null
+  }
+
+  /** Get the metadata payload by external ID, if the vector exists and has one. */
+  getMetadata(id: ExternalId): Metadata | undefined {
+    const internalId = this.externalToInternal.get(id)
+    if (internalId === undefined) return undefined
+    if (this.deletedSet.has(internalId)) return undefined
+    return this.metadata[internalId]
+  }
+
+  /**
+   * Drop deleted nodes without rebuilding the graph. Only adjacency lists that
+   * pointed at a removed node are re-selected; internal IDs are then renumbered
+   * densely. Returns a new compact index.
+   */
   compact(): HNSWIndex {
-    const newIndex = new HNSWIndex(this.config)
+    const oldToNew = new Int32Array(this.count).fill(-1)
+    let live = 0
     for (let i = 0; i < this.count; i++) {
-      if (this.deletedSet.has(i)) continue
-      const extId = this.internalToExternal[i]
-      const dim = this.config.dimensions
-      const vec = this.vectors.slice(i * dim, (i + 1) * dim)
-      newIndex.insert(extId, vec)
+      if (!this.deletedSet.has(i)) oldToNew[i] = live++
+    }
+
+    // Rewire affected lists while still in the old ID space
+    const numLayers = this.adjacency.length
+    const rewired: Map<InternalId, Candidate[]>[] = []
+    for (let l = 0; l < numLayers; l++) {
+      const layerRewired = new Map<InternalId, Candidate[]>()
+      for (let y = 0; y < this.count; y++) {
+        if (oldToNew[y] === -1 || this.levels[y] < l) continue
+        const neighbors = this.getNeighbors(y, l)
+        if (neighbors.every((n) => oldToNew[n] !== -1)) continue
+        layerRewired.set(y, this.repairedNeighbors(y, l, oldToNew))
+      }
+      rewired.push(layerRewired)
+    }
+
+    const capacity = Math.max(1, live)
+    const dim = this.config.dimensions
+    const vectors = new Float32Array(this.storesFloats ? capacity * dim : 0)
+    const halves = new Uint16Array(this.float16DistanceFn ? capacity * dim : 0)
+    const norms = new Float32Array(capacity)
+    const levels = new Uint8Array(capacity)
+    const codes = new Int8Array(this.int8DistanceFn ? capacity * dim : 0)
+    const scales = new Float32Array(this.int8DistanceFn ? capacity : 0)
+    const subspaces = this.config.pqSubspaces
+    const pqCodes = new Uint8Array(this.pqCentroids > 0 ? capacity * subspaces : 0)
+    const words = this.binaryWords
+    const bits = new Uint32Array(capacity * words)
+    const internalToExternal: string[] = new Array(live)
+    const metadata: (Metadata | undefined)[] = new Array(live)
+    for (let i = 0; i < this.count; i++) {
+      const j = oldToNew[i]
+      if (j === -1) continue
+      if (this.storesFloats) {
+        vectors.set(this.vectors.subarray(i * dim, (i + 1) * dim), j * dim)
+      }
+      if (this.float16DistanceFn) {
+        halves.set(this.halves.subarray(i * dim, (i + 1) * dim), j * dim)
+      }
+      if (this.int8DistanceFn) {
+        codes.set(this.codes.subarray(i * dim, (i + 1) * dim), j * dim)
+        scales[j] = this.scales[i]
+      }
+      if (this.pqCentroids > 0) {
+        pqCodes.set(this.pqCodes.subarray(i * subspaces, (i + 1) * subspaces), j * subspaces)
+      }
+      bits.set(this.bits.subarray(i * words, (i + 1) * words), j * words)
+      norms[j] = this.norms[i]
+      levels[j] = this.levels[i]
+      internalToExternal[j] = this.internalToExternal[i]
+      metadata[j] = this.metadata[i]
     }
-    return newIndex
+
+    const adjacency: Uint32Array[] = []
+    const neighborCounts: Uint8Array[] = []
+    for (let l = 0; l < numLayers; l++) {
+      const maxN = l === 0 ? this.config.Mmax0 : this.config.M
+      const adj = new Uint32Array(capacity * maxN)
+      adj.fill(SENTINEL)
+      const counts = new Uint8Array(capacity)
+
+      for (let i = 0; i < this.count; i++) {
+        const j = oldToNew[i]
+        if (j === -1) continue
+        const repaired = rewired[l].get(i)
+        const neighbors = repaired ? repaired.map((c) => c.id) : this.getNeighbors(i, l)
+        for (let k = 0; k < neighbors.length; k++) {
+          adj[j * maxN + k] = oldToNew[neighbors[k]]
+        }
+        counts[j] = neighbors.length
+      }
+
+      adjacency.push(adj)
+      neighborCounts.push(counts)
+    }
+
+    // Keep the entry point if it survived, otherwise promote the highest live node
+    let entryPointId = -1
+    let maxLevel = -1
+    if (this.entryPointId !== -1 && oldToNew[this.entryPointId] !== -1) {
+      entryPointId = oldToNew[this.entryPointId]
+      maxLevel = this.maxLevel
+    } else {
+      for (let j = 0; j < live; j++) {
+        if (levels[j] > maxLevel) {
+          entryPointId = j
+          maxLevel = levels[j]
+        }
+      }
+    }
+
+    return HNSWIndex.fromInternalState(this.config, {
+      vectors,
+      halves,
+      norms,
+      codes,
+      scales,
+      pqCodebook: this.pqCodebook,
+      pqCodes,
+      bits,
+      levels,
+      adjacency,
+      neighborCounts,
+      internalToExternal,
+      metadata,
+      deleted: new Bitset(capacity),
+      deletedCount: 0,
+      count: live,
+      capacity,
+      entryPointId,
+      maxLevel,
+      maxNorm: this.maxNorm,
+    })
+  }
+
+  /** Preallocate room for at least `capacity` nodes, avoiding repeated growth during large inserts. */
+  reserve(capacity: number): void {
+    if (capacity > this.capacity) this.resize(capacity)
   }
 
   /** Shrink all internal arrays to fit the current count exactly. */
   shrinkToFit(): void {
     if (this.capacity === this.count) return
     const newCapacity = Math.max(1, this.count)
-    const dim = this.config.dimensions
-
-    const newVectors = new Float32Array(newCapacity * dim)
-    newVectors.set(this.vectors.subarray(0, this.count * dim))
-    this.vectors = newVectors
-
-    const newNorms = new Float32Array(newCapacity)
-    newNorms.set(this.norms.subarray(0, this.count))
-    this.norms = newNorms
+    this.reallocVectors(newCapacity)
+    this.inLinks = null
 
     const newLevels = new Uint8Array(newCapacity)
     newLevels.set(this.levels.subarray(0, this.count))
@@ -342,79 +646,100 @@ export class HNSWIndex {
 
   /** Estimate memory usage in bytes. */
   memoryUsage(): number {
-    let bytes = this.vectors.byteLength + this.norms.byteLength +
-      this.levels.byteLength
+    let bytes = this.vectors.byteLength + this.halves.byteLength + this.norms.byteLength +
+      this.codes.byteLength + this.scales.byteLength + this.pqCodebook.byteLength +
+      this.pqCodes.byteLength + this.bits.byteLength + this.levels.byteLength
     for (const adj of this.adjacency) bytes += adj.byteLength
     for (const nc of this.neighborCounts) bytes += nc.byteLength
+    for (const counts of this.inLinks ?? []) bytes += counts.byteLength
     return bytes
   }
 
+  /**
+   * Supply the float32 vectors of a PQ index that was decoded without them,
+   * one row per internal slot as in getInternalState(). Enables `rerank`.
+   */
+  attachVectors(vectors: Float32Array): void {
+    const dim = this.config.dimensions
+    if (vectors.length < this.count * dim) {
+      throw new Error(`Expected ${this.count * dim} vector components, got ${vectors.length}`)
+    }
+    this.vectors = new Float32Array(this.capacity * dim)
+    this.vectors.set(vectors.subarray(0, this.count * dim))
+    this.storesFloats = true
+  }
+
   // --- Serialization helpers (used by serialization.ts) ---
 
   /** Get raw internal state for serialization. */
-  getInternalState(): {
-    vectors: Float32Array
-    norms: Float32Array
-    levels: Uint8Array
-    adjacency: Uint32Array[]
-    neighborCounts: Uint8Array[]
-    internalToExternal: string[]
-    count: number
-    capacity: number
-    entryPointId: number
-    maxLevel: number
-  } {
+  getInternalState(): IndexState {
     return {
       vectors: this.vectors,
+      halves: this.halves,
       norms: this.norms,
+      codes: this.codes,
+      scales: this.scales,
+      pqCodebook: this.pqCodebook,
+      pqCodes: this.pqCodes,
+      bits: this.bits,
       levels: this.levels,
       adjacency: this.adjacency,
       neighborCounts: this.neighborCounts,
       internalToExternal: this.internalToExternal,
+      metadata: this.metadata,
+      deleted: this.deletedSet,
+      deletedCount: this._deletedCount,
       count: this.count,
       capacity: this.capacity,
       entryPointId: this.entryPointId,
       maxLevel: this.maxLevel,
+      maxNorm: this.maxNorm,
     }
   }
 
   /** Restore from serialized state. */
   static fromInternalState(
     config: HNSWConfig,
-    state: {
-      vectors: Float32Array
-      norms: Float32Array
-      levels: Uint8Array
-      adjacency: Uint32Array[]
-      neighborCounts: Uint8Array[]
-      internalToExternal: string[]
-      count: number
-      capacity: number
-      entryPointId: number
-      maxLevel: number
-    },
+    state: IndexState,
   ): HNSWIndex {
     const index = new HNSWIndex(config)
     index.vectors = state.vectors
+    index.halves = state.halves
     index.norms = state.norms
+    index.codes = state.codes
+    index.scales = state.scales
+    index.pqCodebook = state.pqCodebook
+    index.pqCodes = state.pqCodes
+    index.bits = state.bits
+    index.pqCentroids = state.pqCodebook.length / config.dimensions
+    // A trained PQ index holds float32 vectors only if they were kept for reranking
+    if (index.pqCentroids > 0) index.storesFloats = state.vectors.length > 0
     index.levels = state.levels
     index.adjacency = state.adjacency
     index.neighborCounts = state.neighborCounts
     index.internalToExternal = state.internalToExternal
+    index.metadata = state.metadata
     index.count = state.count
     index.capacity = state.capacity
     index.entryPointId = state.entryPointId
     index.maxLevel = state.maxLevel
-    index._deletedCount = 0
+    index.maxNorm = state.maxNorm
+    index._deletedCount = state.deletedCount
 
-    // Rebuild external-to-internal map
+    // Rebuild external-to-internal map and the free list of recycled slots
     index.externalToInternal = new Map()
+    index.freeSlots = []
     for (let i = 0; i < state.count; i++) {
-      index.externalToInternal.set(state.internalToExternal[i], i)
+      const extId = state.internalToExternal[i]
+      if (extId === '' && state.deleted.has(i)) {
+        index.freeSlots.push(i)
+        continue
+      }
+      index.externalToInternal.set(extId, i)
     }
 
-    // Rebuild deleted set and visited pool
-    index.deletedSet = new Bitset(state.capacity)
+    index.deletedSet = state.deleted
+    index.deletedSet.grow(state.capacity)
     index._visited = new Bitset(state.capacity)
 
     return index
@@ -422,12 +747,397 @@ export class HNSWIndex {
 
   // --- Private methods ---
 
+  private toVector(vector: VectorInput): Vector {
+    const vec = toMetricVector(vector, this.config.metric)
+    if (vec.length !== this.config.dimensions) {
+      throw new Error(
+        `Vector dimension mismatch: expected ${this.config.dimensions}, got ${vec.length}`,
+      )
+    }
+    return this.preprocess ? this.preprocess(vec) : vec
+  }
+
+  /** A query as distances expect it: float32, through the metric's preprocessing. */
+  private toQuery(query: VectorInput): Vector {
+    const q = toMetricVector(query, this.config.metric)
+    return this.preprocess ? this.preprocess(q) : q
+  }
+
+  /**
+   * Link a node into every layer up to `level`: greedy descent from the entry
+   * point, then beam search and neighbor selection per layer.
+   */
+  private connectNode(internalId: InternalId, level: number): void {
+    let currObj = this.entryPointId
+    let currDist = this.distance(internalId, currObj)
+
+    // Phase 1: Greedy descent from top layer to level+1
+    for (let l = this.maxLevel; l > level; l--) {
+      let changed = true
+      while (changed) {
+        changed = false
+        const neighbors = this.getNeighbors(currObj, l)
+        for (let i = 0; i < neighbors.length; i++) {
+          const neighbor = neighbors[i]
+          if (neighbor === SENTINEL) break
+          const d = this.distance(internalId, neighbor)
+          if (d < currDist) {
+            currObj = neighbor
+            currDist = d
+            changed = true
+          }
+        }
+      }
+    }
+
+    // Phase 2: Insert at each layer from min(level, maxLevel) down to 0
+    const topInsertLevel = Math.min(level, this.maxLevel)
+    for (let l = topInsertLevel; l >= 0; l--) {
+      const maxNeighbors = l === 0 ? this.config.Mmax0 : this.config.M
+
+      // Beam search to find candidates (excluding the node itself when it is already linked)
+      const candidates = this.searchLayer(
+        internalId,
+        currObj,
+        this.config.efConstruction,
+        l,
+      ).filter((c) => c.id !== internalId)
+      if (candidates.length === 0) continue
+
+      // Select neighbors
+      const selected = this.config.useHeuristic
+        ? this.selectNeighborsHeuristic(candidates, maxNeighbors)
+        : this.selectNeighborsSimple(candidates, maxNeighbors)
+
+      // Connect internalId to selected neighbors
+      this.setNeighbors(internalId, l, selected)
+
+      // Add bidirectional connections
+      for (const neighbor of selected) {
+        this.addConnection(neighbor.id, internalId, l)
+      }
+
+      // Use the nearest candidate as entry for next layer
+      currObj = candidates[0].id
+      currDist = candidates[0].distance
+    }
+  }
+
+  /**
+   * After a node's vector changed, re-select the neighbor lists of its
+   * one-hop neighbors from their combined one- and two-hop neighborhood.
+   */
+  private refreshNeighborhood(internalId: InternalId): void {
+    const level = this.levels[internalId]
+    for (let l = 0; l <= level; l++) {
+      const oneHop = Array.from(this.getNeighbors(internalId, l))
+      if (oneHop.length === 0) continue
+
+      const candidateIds = new Set<InternalId>([internalId])
+      for (const n of oneHop) {
+        candidateIds.add(n)
+        for (const twoHop of this.getNeighbors(n, l)) candidateIds.add(twoHop)
+      }
+
+      const maxNeighbors = l === 0 ? this.config.Mmax0 : this.config.M
+      for (const n of oneHop) {
+        const candidates: Candidate[] = []
+        for (const c of candidateIds) {
+          if (c !== n) candidates.push({ id: c, distance: this.distance(n, c) })
+        }
+        candidates.sort(MIN_CMP)
+        candidates.length = Math.min(candidates.length, this.config.efConstruction)
+
+        const selected = this.config.useHeuristic
+          ? this.selectNeighborsHeuristic(candidates, maxNeighbors)
+          : this.selectNeighborsSimple(candidates, maxNeighbors)
+        this.setNeighbors(n, l, selected)
+      }
+    }
+  }
+
+  /**
+   * Remove every edge to and from a deleted node. Each in-neighbor re-selects
+   * its list from its remaining neighbors plus the deleted node's neighbors.
+   * The slot is recycled only once nothing links to it; otherwise it stays a
+   * tombstone without edges until compact().
+   */
+  private unlinkNode(internalId: InternalId): void {
+    const level = this.levels[internalId]
+    const inLinks = this.inLinkCounts()
+    let unreached = false
+    for (let l = 0; l <= level; l++) {
+      const maxNeighbors = l === 0 ? this.config.Mmax0 : this.config.M
+      const orphaned = Array.from(this.getNeighbors(internalId, l))
+
+      // Edges are not guaranteed to be symmetric, but nodes linking here are
+      // almost always within two hops of it, so look there rather than scan the layer
+      const nearby = new Set<InternalId>()
+      for (const n of orphaned) {
+        nearby.add(n)
+        for (const m of this.getNeighbors(n, l)) nearby.add(m)
+      }
+      nearby.delete(internalId)
+
+      for (const y of nearby) {
+        if (inLinks[l][internalId] === 0) break
+        const neighbors = this.getNeighbors(y, l)
+        if (!neighbors.includes(internalId)) continue
+
+        const candidateIds = new Set<InternalId>()
+        for (const n of neighbors) {
+          if (n !== internalId) candidateIds.add(n)
+        }
+        for (const n of orphaned) {
+          if (n !== y) candidateIds.add(n)
+        }
+
+        const candidates: Candidate[] = []
+        for (const c of candidateIds) {
+          candidates.push({ id: c, distance: this.distance(y, c) })
+        }
+        const selected = this.config.useHeuristic
+          ? this.selectNeighborsHeuristic(candidates, maxNeighbors)
+          : this.selectNeighborsSimple(candidates, maxNeighbors)
+        this.setNeighbors(y, l, selected)
+      }
+      if (inLinks[l][internalId] > 0) unreached = true
+    }
+
+    // Dropping its own edges keeps a tombstone from linking to later deletes
+    for (let l = 0; l <= level; l++) this.setNeighbors(internalId, l, [])
+
+    // A node linking here from farther away would route into whatever vector
+    // reused the slot, so the slot is only freed once no links remain
+    if (!unreached) {
+      this.externalToInternal.delete(this.internalToExternal[internalId])
+      this.internalToExternal[internalId] = ''
+      this.freeSlots.push(internalId)
+    }
+
+    if (this.entryPointId === internalId) {
+      this.electEntryPoint()
+    }
+  }
+
+  /**
+   * Re-select a node's list for compaction: removed neighbors are replaced by
+   * the live nodes reachable through them.
+   */
+  private repairedNeighbors(
+    nodeId: InternalId,
+    layer: number,
+    oldToNew: Int32Array,
+  ): Candidate[] {
+    const candidateIds = new Set<InternalId>()
+    const seen = new Set<InternalId>([nodeId])
+    let frontier: InternalId[] = Array.from(this.getNeighbors(nodeId, layer))
+
+    for (let hop = 0; hop < MAX_REPAIR_HOPS && frontier.length > 0; hop++) {
+      const next: InternalId[] = []
+      for (const n of frontier) {
+        if (seen.has(n)) continue
+        seen.add(n)
+        if (oldToNew[n] !== -1) {
+          candidateIds.add(n)
+        } else {
+          next.push(...this.getNeighbors(n, layer))
+        }
+      }
+      frontier = next
+    }
+
+    const candidates: Candidate[] = []
+    for (const c of candidateIds) {
+      candidates.push({ id: c, distance: this.distance(nodeId, c) })
+    }
+    const maxNeighbors = layer === 0 ? this.config.Mmax0 : this.config.M
+    return this.config.useHeuristic
+      ? this.selectNeighborsHeuristic(candidates, maxNeighbors)
+      : this.selectNeighborsSimple(candidates, maxNeighbors)
+  }
+
+  /** Pick the live node with the highest level as the new entry point. */
+  /** Per layer, how many nodes link to each node (see `inLinks`). */
+  private inLinkCounts(): Uint32Array[] {
+    if (!this.inLinks) {
+      this.inLinks = this.adjacency.map(() => new Uint32Array(this.capacity))
+      for (let l = 0; l < this.adjacency.length; l++) {
+        for (let y = 0; y < this.count; y++) {
+          for (const n of this.getNeighbors(y, l)) this.inLinks[l][n]++
+        }
+      }
+    }
+    return this.inLinks
+  }
+
+  private electEntryPoint(): void {
+    this.entryPointId = -1
+    this.maxLevel = -1
+    for (let i = 0; i < this.count; i++) {
+      if (this.deletedSet.has(i)) continue
+      if (this.levels[i] > this.maxLevel) {
+        this.entryPointId = i
+        this.maxLevel = this.levels[i]
+      }
+    }
+  }
+
   private randomLevel(): number {
     return Math.floor(-Math.log(this.rng()) * this.config.mL)
   }
 
+  /** Write a node's vector into float and/or quantized storage and cache its norm. */
+  private storeVector(internalId: InternalId, vec: Vector): void {
+    const dim = this.config.dimensions
+    if (this.storesFloats) {
+      this.vectors.set(vec, internalId * dim)
+    }
+    if (this.float16DistanceFn) {
+      encodeFloat16(vec, this.halves, internalId * dim)
+    }
+    if (this.int8DistanceFn) {
+      this.scales[internalId] = quantizeInt8(vec, this.codes, internalId * dim)
+    }
+
+    if (this.binaryWords > 0) {
+      packBinary(vec, this.bits, internalId * this.binaryWords)
+    }
+
+    const subspaces = this.config.pqSubspaces
+    if (this.pqCentroids > 0) {
+      encodePQ(vec, this.pqCodebook, subspaces, this.pqCodes, internalId * subspaces)
+    }
+
+    // Cache norm for cosine; under PQ, of the reconstruction that ADC scores against
+    if (this.config.metric === 'cosine') {
+      this.norms[internalId] = this.pqCentroids > 0
+        ? computeNorm(decodePQ(this.pqCodes, internalId * subspaces, this.pqCodebook, subspaces, dim, this._decoded))
+        : computeNorm(vec)
+    }
+    if (this.config.mips) {
+      this.norms[internalId] = computeNorm(vec)
+      if (this.norms[internalId] > this.maxNorm) this.maxNorm = this.norms[internalId]
+    }
+
+    if (this.config.quantization === 'pq' && this.pqCentroids === 0 && this.count >= this.config.pqTrainingSize) {
+      this.trainQuantizer()
+    }
+  }
+
+  /** Train PQ codebooks on the float32 vectors stored so far and code every node with them. */
+  private trainQuantizer(): void {
+    const dim = this.config.dimensions
+    const subspaces = this.config.pqSubspaces
+    const rows: InternalId[] = []
+    for (let i = 0; i < this.count; i++) {
+      if (!this.deletedSet.has(i)) rows.push(i)
+    }
+    if (rows.length === 0) return
+
+    this.pqCodebook = trainPQ(this.vectors, dim, rows, subspaces, this.config.seed)
+    this.pqCentroids = this.pqCodebook.length / dim
+    this.pqCodes = new Uint8Array(this.capacity * subspaces)
+    for (let i = 0; i < this.count; i++) {
+      encodePQ(this.vectors.subarray(i * dim, (i + 1) * dim), this.pqCodebook, subspaces, this.pqCodes, i * subspaces)
+      if (this.config.metric === 'cosine') {
+        this.norms[i] = computeNorm(decodePQ(this.pqCodes, i * subspaces, this.pqCodebook, subspaces, dim, this._decoded))
+      }
+    }
+
+    if (!this.config.rerank) {
+      this.vectors = new Float32Array(0)
+      this.storesFloats = false
+    }
+  }
+
+  /** Reallocate per-node vector storage for a new capacity, keeping existing nodes. */
+  private reallocVectors(newCapacity: number): void {
+    const dim = this.config.dimensions
+    const n = this.count
+
+    if (this.storesFloats) {
+      const newVectors = new Float32Array(newCapacity * dim)
+      newVectors.set(this.vectors.subarray(0, n * dim))
+      this.vectors = newVectors
+    }
+
+    if (this.float16DistanceFn) {
+      const newHalves = new Uint16Array(newCapacity * dim)
+      newHalves.set(this.halves.subarray(0, n * dim))
+      this.halves = newHalves
+    }
+
+    if (this.int8DistanceFn) {
+      const newCodes = new Int8Array(newCapacity * dim)
+      newCodes.set(this.codes.subarray(0, n * dim))
+      this.codes = newCodes
+
+      const newScales = new Float32Array(newCapacity)
+      newScales.set(this.scales.subarray(0, n))
+      this.scales = newScales
+    }
+
+    if (this.binaryWords > 0) {
+      const newBits = new Uint32Array(newCapacity * this.binaryWords)
+      newBits.set(this.bits.subarray(0, n * this.binaryWords))
+      this.bits = newBits
+    }
+
+    if (this.pqCentroids > 0) {
+      const subspaces = this.config.pqSubspaces
+      const newCodes = new Uint8Array(newCapacity * subspaces)
+      newCodes.set(this.pqCodes.subarray(0, n * subspaces))
+      this.pqCodes = newCodes
+    }
+
+    const newNorms = new Float32Array(newCapacity)
+    newNorms.set(this.norms.subarray(0, n))
+    this.norms = newNorms
+  }
+
+  /** Results for the leading candidates, in ascending order, that lie within the radius. */
+  private withinRadius(candidates: Candidate[], radius: number): SearchResult[] {
+    let n = 0
+    while (n < candidates.length && candidates[n].distance <= radius) n++
+    return this.toResults(candidates, n)
+  }
+
+  /** With quantization and `rerank` (always, for binary codes), re-score candidates against the float32 vectors. */
+  private rerank(query: Vector, candidates: Candidate[]): Candidate[] {
+    const quantized = this.int8DistanceFn !== null || this.pqCentroids > 0
+    const reranks = this.binaryWords > 0 || (quantized && this.config.rerank)
+    if (!reranks || !this.storesFloats) return candidates
+
+    const dim = this.config.dimensions
+    return candidates
+      .map((c) => ({
+        id: c.id,
+        distance: this.distanceFn(query, this.vectors.subarray(c.id * dim, (c.id + 1) * dim)),
+      }))
+      .sort(MIN_CMP)
+  }
+
   private distance(a: InternalId, b: InternalId): number {
     const dim = this.config.dimensions
+    if (this.binaryWords > 0) {
+      const words = this.binaryWords
+      return hamming(this.bits, a * words, this.bits, b * words, words)
+    }
+    if (this.pqCentroids > 0) {
+      const subspaces = this.config.pqSubspaces
+      const vecA = decodePQ(this.pqCodes, a * subspaces, this.pqCodebook, subspaces, dim, this._decoded)
+      const vecB = decodePQ(this.pqCodes, b * subspaces, this.pqCodebook, subspaces, dim, this._decodedPair)
+      return this.distanceFn(vecA, vecB)
+    }
+    if (this.float16DistanceFn) {
+      const vecA = decodeFloat16(this.halves, a * dim, dim, this._decoded)
+      return this.float16DistanceFn(vecA, this.halves, b * dim)
+    }
+    if (this.int8DistanceFn) {
+      const vecA = dequantizeInt8(this.codes, a * dim, dim, this.scales[a], this._decoded)
+      return this.int8DistanceFn(vecA, this.codes, b * dim, this.scales[b])
+    }
     const vecA = new Float32Array(
       this.vectors.buffer,
       this.vectors.byteOffset + a * dim * 4,
@@ -438,20 +1148,73 @@ export class HNSWIndex {
       this.vectors.byteOffset + b * dim * 4,
       dim,
     )
+    // Cosine reads both norms from the cache
+    if (this.config.metric === 'cosine') {
+      return cosineWithNorms(vecA, vecB, this.norms[a], this.norms[b])
+    }
+    // MIPS: L2 between the augmented vectors. Queries augment with 0, so their
+    // L2 is |q|² + maxNorm² - 2q·x and ranks like the -dot distanceToQuery() returns.
+    if (this.config.mips) {
+      const extra = this.mipsCoordinate(a) - this.mipsCoordinate(b)
+      return euclidean(vecA, vecB) + extra * extra
+    }
     return this.distanceFn(vecA, vecB)
   }
 
+  /** The extra dimension MIPS augments node `id` with. */
+  private mipsCoordinate(id: InternalId): number {
+    const norm = this.norms[id]
+    return Math.sqrt(Math.max(0, this.maxNorm * this.maxNorm - norm * norm))
+  }
+
   private distanceToQuery(query: Vector, b: InternalId): number {
     const dim = this.config.dimensions
+    if (this.binaryWords > 0) {
+      if (query !== this._preparedQuery) this.prepareQuery(query)
+      return hamming(this._queryBits, 0, this.bits, b * this.binaryWords, this.binaryWords)
+    }
+    if (this.pqCentroids > 0) {
+      if (query !== this._preparedQuery) this.prepareQuery(query)
+      const subspaces = this.config.pqSubspaces
+      const sum = adcLookup(this._adcTable, this.pqCodes, b * subspaces, subspaces, this.pqCentroids)
+      if (this.config.metric !== 'cosine') return sum
+      const denom = this._queryNorm * this.norms[b]
+      return denom === 0 ? 1 : 1 - sum / denom
+    }
+    if (this.float16DistanceFn) {
+      return this.float16DistanceFn(query, this.halves, b * dim)
+    }
+    if (this.int8DistanceFn) {
+      return this.int8DistanceFn(query, this.codes, b * dim, this.scales[b])
+    }
     const vecB = new Float32Array(
       this.vectors.buffer,
       this.vectors.byteOffset + b * dim * 4,
       dim,
     )
+    // Cosine: the query norm is computed once per search, node norms come from the cache
+    if (this.config.metric === 'cosine') {
+      if (query !== this._preparedQuery) this.prepareQuery(query)
+      return cosineWithNorms(query, vecB, this._queryNorm, this.norms[b])
+    }
     return this.distanceFn(query, vecB)
   }
 
+  /** Precompute what distanceToQuery() reads for this query: its norm, and its sign bits or PQ lookup table. */
+  private prepareQuery(query: Vector): void {
+    this._preparedQuery = query
+    this._queryNorm = computeNorm(query)
+    if (this.binaryWords > 0) {
+      packBinary(query, this._queryBits, 0)
+    } else if (this.pqCentroids > 0) {
+      const size = this.config.pqSubspaces * this.pqCentroids
+      const out = this._adcTable.length === size ? this._adcTable : undefined
+      this._adcTable = computeADCTable(query, this.pqCodebook, this.config.pqSubspaces, this.config.metric, out)
+    }
+  }
+
   private ensureLayer(layer: number): void {
+    if (this.adjacency.length <= layer) this.inLinks = null
     while (this.adjacency.length <= layer) {
       const l = this.adjacency.length
       const maxN = l === 0 ? this.config.Mmax0 : this.config.M
@@ -478,6 +1241,11 @@ export class HNSWIndex {
     const offset = nodeId * maxN
     const count = Math.min(neighbors.length, maxN)
 
+    const inLinks = this.inLinks?.[layer]
+    if (inLinks) {
+      for (const n of this.getNeighbors(nodeId, layer)) inLinks[n]--
+      for (let i = 0; i < count; i++) inLinks[neighbors[i].id]++
+    }
     for (let i = 0; i < count; i++) {
       this.adjacency[layer][offset + i] = neighbors[i].id
     }
@@ -504,6 +1272,7 @@ export class HNSWIndex {
     if (count < maxN) {
       this.adjacency[layer][offset + count] = neighborId
       this.neighborCounts[layer][nodeId] = count + 1
+      if (this.inLinks) this.inLinks[layer][neighborId]++
     } else {
       // Overflow: collect all current neighbors + new one, then select best
       const candidates: Candidate[] = new Array(count + 1)
@@ -585,12 +1354,120 @@ export class HNSWIndex {
     return sorted
   }
 
-  /** Beam search within a single layer, using a query vector (for search). */
+  /** Greedy descent from the entry point through layers > 0; returns the layer-0 entry. */
+  private descend(query: Vector): InternalId {
+    let currObj = this.entryPointId
+    let currDist = this.distanceToQuery(query, currObj)
+
+    for (let l = this.maxLevel; l >= 1; l--) {
+      let changed = true
+      while (changed) {
+        changed = false
+        const neighbors = this.getNeighbors(currObj, l)
+        for (let i = 0; i < neighbors.length; i++) {
+          const neighbor = neighbors[i]
+          if (neighbor === SENTINEL) break
+          const d = this.distanceToQuery(query, neighbor)
+          if (d < currDist) {
+            currObj = neighbor
+            currDist = d
+            changed = true
+          }
+        }
+      }
+    }
+
+    return currObj
+  }
+
+  /** Predicate for nodes allowed in results: live and matching the filter, or null if all nodes are. */
+  private acceptor(filter?: SearchFilter): ((id: InternalId) => boolean) | null {
+    const deleted = this.deletedSet
+    if (!filter) {
+      return this._deletedCount > 0 ? (id) => !deleted.has(id) : null
+    }
+    const predicate = toPredicate(filter)
+    return (id) => !deleted.has(id) && predicate(this.internalToExternal[id], this.metadata[id])
+  }
+
+  /** Fraction of nodes accepted, estimated from an evenly strided sample. */
+  private estimateSelectivity(accepts: (id: InternalId) => boolean): number {
+    const samples = Math.min(this.count, SELECTIVITY_SAMPLES)
+    const stride = this.count / samples
+    let hits = 0
+    for (let s = 0; s < samples; s++) {
+      if (accepts(Math.floor(s * stride))) hits++
+    }
+    return hits / samples
+  }
+
+  /** Exact k-NN over the accepted nodes. */
+  private bruteForceSearch(
+    query: Vector,
+    k: number,
+    accepts: (id: InternalId) => boolean,
+  ): Candidate[] {
+    const results = this._results
+    results.clear()
+
+    for (let i = 0; i < this.count; i++) {
+      if (!accepts(i)) continue
+      const d = this.distanceToQuery(query, i)
+      if (results.size < k) {
+        results.push({ id: i, distance: d })
+      } else if (d < results.peek()!.distance) {
+        results.pop()
+        results.push({ id: i, distance: d })
+      }
+    }
+
+    const len = results.size
+    const sorted: Candidate[] = new Array(len)
+    for (let i = len - 1; i >= 0; i--) {
+      sorted[i] = results.pop()!
+    }
+    return sorted
+  }
+
+  /** Exact range scan over the accepted nodes. */
+  private bruteForceRange(
+    query: Vector,
+    radius: number,
+    accepts: (id: InternalId) => boolean,
+  ): Candidate[] {
+    const results: Candidate[] = []
+    for (let i = 0; i < this.count; i++) {
+      if (!accepts(i)) continue
+      const d = this.distanceToQuery(query, i)
+      if (d <= radius) results.push({ id: i, distance: d })
+    }
+    return results.sort(MIN_CMP)
+  }
+
+  private toResults(candidates: Candidate[], k: number): SearchResult[] {
+    const n = Math.min(candidates.length, k)
+    const results: SearchResult[] = new Array(n)
+    for (let i = 0; i < n; i++) {
+      const c = candidates[i]
+      results[i] = { id: this.internalToExternal[c.id], distance: c.distance }
+    }
+    return results
+  }
+
+  /**
+   * Beam search within a single layer, using a query vector (for search).
+   * With `accepts`, rejected nodes are still expanded for navigation but never
+   * take a result slot, and the walk continues until `ef` accepted nodes are held.
+   * With `radius`, the beam grows past `ef` to keep every node within the radius,
+   * and the walk continues until no candidate inside the radius is unexplored.
+   */
   private searchLayerByQuery(
     query: Vector,
     entryId: InternalId,
     ef: number,
     layer: number,
+    accepts?: (id: InternalId) => boolean,
+    radius = -Infinity,
   ): Candidate[] {
     const entryDist = this.distanceToQuery(query, entryId)
 
@@ -605,14 +1482,18 @@ export class HNSWIndex {
     candidates.clear()
     results.clear()
 
+    // Distance of the worst accepted result; unbounded until one is found
+    let lowerBound = Infinity
     candidates.push({ id: entryId, distance: entryDist })
-    results.push({ id: entryId, distance: entryDist })
+    if (!accepts || accepts(entryId)) {
+      results.push({ id: entryId, distance: entryDist })
+      lowerBound = entryDist
+    }
 
     while (candidates.size > 0) {
       const nearest = candidates.pop()!
-      const farthest = results.peek()!
 
-      if (nearest.distance > farthest.distance) break
+      if (nearest.distance > lowerBound && nearest.distance > radius && results.size >= ef) break
 
       const neighbors = this.getNeighbors(nearest.id, layer)
       for (let i = 0; i < neighbors.length; i++) {
@@ -622,13 +1503,16 @@ export class HNSWIndex {
         visited.set(neighborId)
 
         const d = this.distanceToQuery(query, neighborId)
-        const worstResult = results.peek()!
 
-        if (d < worstResult.distance || results.size < ef) {
+        if (d < lowerBound || d <= radius || results.size < ef) {
           candidates.push({ id: neighborId, distance: d })
-          results.push({ id: neighborId, distance: d })
-          if (results.size > ef) {
-            results.pop()
+          if (!accepts || accepts(neighborId)) {
+            results.push({ id: neighborId, distance: d })
+            // Trim to ef, but never drop a node inside the radius
+            while (results.size > ef && results.peek()!.distance > radius) {
+              results.pop()
+            }
+            lowerBound = results.peek()!.distance
           }
         }
       }
@@ -698,19 +1582,15 @@ export class HNSWIndex {
   }
 
   private grow(): void {
-    const newCapacity = Math.max(
+    this.resize(Math.max(
       this.capacity + 1,
       Math.ceil(this.capacity * GROWTH_FACTOR),
-    )
-    const dim = this.config.dimensions
-
-    const newVectors = new Float32Array(newCapacity * dim)
-    newVectors.set(this.vectors)
-    this.vectors = newVectors
+    ))
+  }
 
-    const newNorms = new Float32Array(newCapacity)
-    newNorms.set(this.norms)
-    this.norms = newNorms
+  private resize(newCapacity: number): void {
+    this.reallocVectors(newCapacity)
+    this.inLinks = null
 
     const newLevels = new Uint8Array(newCapacity)
     newLevels.set(this.levels)
@@ -0,0 +1,100 @@
+import { chebyshev, cosine, euclidean, hamming, innerProduct, jaccard, manhattan } from './distances.ts'
+import type { DistanceFunction, DistanceMetric, Vector, VectorInput } from './types.ts'
+
+/** A named distance metric, as registered with registerMetric(). */
+export interface MetricDefinition {
+  /** Distance between two vectors. Lower = more similar. */
+  distance: DistanceFunction
+  /**
+   * Transform applied to every vector before it is stored or searched with,
+   * e.g. normalization. Must keep the dimension.
+   */
+  preprocess?: (vector: Vector) => Vector
+  /**
+   * Whether the distance obeys the triangle inequality (is a true metric).
+   * Informational only: the index treats every metric the same way, and HNSW
+   * does not need the property to search correctly.
+   */
+  triangleInequality: boolean
+  /**
+   * Convert a distance to the value reported with `SearchOptions.score`.
+   * Must be monotonic: increasing for a distance-like score, decreasing for a
+   * similarity. Distances are reported unchanged when omitted.
+   */
+  score?: (distance: number) => number
+  /**
+   * Read each dimension as a 32-bit word of packed bits: the distance sees the
+   * bit patterns of the float32 components, not their values. Such metrics
+   * require float32 vectors without quantization.
+   */
+  packedBits?: boolean
+}
+
+/** Metrics every index understands; their names cannot be re-registered. */
+export const BUILTIN_METRICS: readonly DistanceMetric[] = [
+  'euclidean',
+  'cosine',
+  'inner_product',
+  'manhattan',
+  'chebyshev',
+  'hamming',
+  'jaccard',
+]
+
+const registry = new Map<string, MetricDefinition>([
+  // Squared L2, 1 - cos and -dot all break the triangle inequality
+  ['euclidean', { distance: euclidean, triangleInequality: false, score: Math.sqrt }],
+  ['cosine', { distance: cosine, triangleInequality: false, score: (distance) => 1 - distance }],
+  ['inner_product', { distance: innerProduct, triangleInequality: false, score: (distance) => -distance }],
+  ['manhattan', { distance: manhattan, triangleInequality: true }],
+  ['chebyshev', { distance: chebyshev, triangleInequality: true }],
+  ['hamming', { distance: hamming, triangleInequality: true, packedBits: true }],
+  ['jaccard', { distance: jaccard, triangleInequality: true, packedBits: true }],
+])
+
+/**
+ * Register a custom metric under `name`, usable as `HNSWConfig.metric`.
+ * Shards record the name, so the metric must be registered again before a
+ * store using it is opened. Worker threads do not see custom metrics.
+ */
+export function registerMetric(name: string, definition: MetricDefinition): void {
+  if (name === '') throw new Error('Metric name must not be empty')
+  if (registry.has(name)) throw new Error(`Metric already registered: ${name}`)
+  registry.set(name, definition)
+}
+
+/** Whether a metric of this name is registered (built-in metrics always are). */
+export function hasMetric(name: string): boolean {
+  return registry.has(name)
+}
+
+/** Whether the metric is one of the built-ins, which shards store as a metric byte. */
+export function isBuiltinMetric(name: string): boolean {
+  return (BUILTIN_METRICS as readonly string[]).includes(name)
+}
+
+/** Look up a registered metric. */
+export function getMetric(name: DistanceMetric): MetricDefinition {
+  const definition = registry.get(name)
+  if (!definition) {
+    throw new Error(`Unknown distance metric: ${name}. Custom metrics must be registered with registerMetric() first`)
+  }
+  return definition
+}
+
+/**
+ * The float32 vector `metric` reads for an input. For packed-bit metrics a
+ * Float32Array already holds the words, and any other array is read as
+ * unsigned 32-bit integers whose bits become the components.
+ */
+export function toMetricVector(vector: VectorInput, metric: DistanceMetric): Vector {
+  if (vector instanceof Float32Array) return vector
+  if (!getMetric(metric).packedBits) return new Float32Array(vector)
+  const words = vector instanceof Uint32Array ? vector : Uint32Array.from(vector)
+  return new Float32Array(words.buffer, words.byteOffset, words.length)
+}
+
+/** Returns the distance function for the given metric. */
+export function getDistanceFunction(metric: DistanceMetric): DistanceFunction {
+  return getMetric(metric).distance
+}
@@ -0,0 +1,178 @@
+import { createRng } from './random.ts'
+import type { DistanceMetric, Vector } from './types.ts'
+
+/** Centroids per subspace are capped so every code fits in one byte. */
+export const PQ_MAX_CENTROIDS = 256
+
+const KMEANS_ITERATIONS = 10
+
+/**
+ * Train a product quantizer with k-means in each subspace, using the rows of
+ * `vectors` listed in `rows`. The codebook is laid out
+ * [subspace][centroid][component]; it holds min(256, rows.length) centroids per subspace.
+ */
+export function trainPQ(
+  vectors: Float32Array,
+  dim: number,
+  rows: number[],
+  subspaces: number,
+  seed?: number,
+): Float32Array {
+  const subDim = dim / subspaces
+  const n = rows.length
+  const centroids = Math.min(PQ_MAX_CENTROIDS, n)
+  const codebook = new Float32Array(subspaces * centroids * subDim)
+  const rng = createRng(seed)
+
+  const order = rows.slice()
+  const sums = new Float64Array(centroids * subDim)
+  const counts = new Uint32Array(centroids)
+
+  for (let s = 0; s < subspaces; s++) {
+    const book = codebook.subarray(s * centroids * subDim, (s + 1) * centroids * subDim)
+    const start = s * subDim
+
+    // Seed with distinct sample rows
+    for (let c = 0; c < centroids; c++) {
+      const j = c + Math.floor(rng() * (n - c))
+      const tmp = order[c]
+      order[c] = order[j]
+      order[j] = tmp
+      book.set(vectors.subarray(order[c] * dim + start, order[c] * dim + start + subDim), c * subDim)
+    }
+
+    for (let iter = 0; iter < KMEANS_ITERATIONS; iter++) {
+      sums.fill(0)
+      counts.fill(0)
+      for (let i = 0; i < n; i++) {
+        const base = rows[i] * dim + start
+        const c = nearestCentroid(vectors, base, book, centroids, subDim)
+        counts[c]++
+        for (let d = 0; d < subDim; d++) sums[c * subDim + d] += vectors[base + d]
+      }
+
+      for (let c = 0; c < centroids; c++) {
+        if (counts[c] === 0) {
+          // Empty cluster: restart it on a random row
+          const base = rows[Math.floor(rng() * n)] * dim + start
+          book.set(vectors.subarray(base, base + subDim), c * subDim)
+          continue
+        }
+        for (let d = 0; d < subDim; d++) book[c * subDim + d] = sums[c * subDim + d] / counts[c]
+      }
+    }
+  }
+
+  return codebook
+}
+
+/** Encode a vector as one centroid index per subspace, written to `codes` at `offset`. */
+export function encodePQ(
+  vec: Vector,
+  codebook: Float32Array,
+  subspaces: number,
+  codes: Uint8Array,
+  offset: number,
+): void {
+  const subDim = vec.length / subspaces
+  const centroids = codebook.length / vec.length
+  for (let s = 0; s < subspaces; s++) {
+    const book = codebook.subarray(s * centroids * subDim, (s + 1) * centroids * subDim)
+    codes[offset + s] = nearestCentroid(vec, s * subDim, book, centroids, subDim)
+  }
+}
+
+/** Reconstruct an approximate float32 vector from its PQ codes. */
+export function decodePQ(
+  codes: Uint8Array,
+  offset: number,
+  codebook: Float32Array,
+  subspaces: number,
+  dim: number,
+  out: Float32Array = new Float32Array(dim),
+): Float32Array {
+  const subDim = dim / subspaces
+  const centroids = codebook.length / dim
+  for (let s = 0; s < subspaces; s++) {
+    const from = (s * centroids + codes[offset + s]) * subDim
+    out.set(codebook.subarray(from, from + subDim), s * subDim)
+  }
+  return out
+}
+
+/**
+ * Per-query lookup table for asymmetric distance computation: entry
+ * [subspace * centroids + c] is the query slice's partial score against
+ * centroid c. Euclidean stores squared differences, inner product the negated
+ * dot product and cosine the dot product (normalized by the caller).
+ */
+export function computeADCTable(
+  query: Vector,
+  codebook: Float32Array,
+  subspaces: number,
+  metric: DistanceMetric,
+  out?: Float32Array,
+): Float32Array {
+  const dim = query.length
+  const subDim = dim / subspaces
+  const centroids = codebook.length / dim
+  const table = out ?? new Float32Array(subspaces * centroids)
+
+  for (let s = 0; s < subspaces; s++) {
+    const q = s * subDim
+    for (let c = 0; c < centroids; c++) {
+      const base = (s * centroids + c) * subDim
+      let sum = 0
+      if (metric === 'euclidean') {
+        for (let d = 0; d < subDim; d++) {
+          const diff = query[q + d] - codebook[base + d]
+          sum += diff * diff
+        }
+      } else {
+        for (let d = 0; d < subDim; d++) sum += query[q + d] * codebook[base + d]
+        if (metric === 'inner_product') sum = -sum
+      }
+      table[s * centroids + c] = sum
+    }
+  }
+
+  return table
+}
+
+/** Sum a node's partial scores from an ADC table. */
+export function adcLookup(
+  table: Float32Array,
+  codes: Uint8Array,
+  offset: number,
+  subspaces: number,
+  centroids: number,
+): number {
+  let sum = 0
+  for (let s = 0; s < subspaces; s++) {
+    sum += table[s * centroids + codes[offset + s]]
+  }
+  return sum
+}
+
+function nearestCentroid(
+  source: ArrayLike<number>,
+  base: number,
+  book: Float32Array,
+  centroids: number,
+  subDim: number,
+): number {
+  let best = 0
+  let bestDist = Infinity
+  for (let c = 0; c < centroids; c++) {
+    let dist = 0
+    for (let d = 0; d < subDim; d++) {
+      const diff = source[base + d] - book[c * subDim + d]
+      dist += diff * diff
+    }
+    if (dist < bestDist) {
+      bestDist = dist
+      best = c
+    }
+  }
+  return best
+}
@@ -0,0 +1,160 @@
+import type { DistanceFunction, DistanceMetric, Vector } from './types.ts'
+
+/**
+ * Distance between a float32 query and an int8-coded vector, where the stored
+ * value of dimension i is approximately `codes[offset + i] * scale`.
+ */
+export type Int8DistanceFunction = (
+  query: Vector,
+  codes: Int8Array,
+  offset: number,
+  scale: number,
+) => number
+
+/**
+ * Quantize a vector into int8 codes at `offset` with a per-vector scale
+ * (max |value| / 127). Returns the scale.
+ */
+export function quantizeInt8(vec: Vector, codes: Int8Array, offset: number): number {
+  let maxAbs = 0
+  for (let i = 0; i < vec.length; i++) {
+    const a = Math.abs(vec[i])
+    if (a > maxAbs) maxAbs = a
+  }
+
+  const scale = maxAbs / 127
+  const inv = scale === 0 ? 0 : 1 / scale
+  for (let i = 0; i < vec.length; i++) {
+    codes[offset + i] = Math.round(vec[i] * inv)
+  }
+  return scale
+}
+
+/** Reconstruct an approximate float32 vector from int8 codes. */
+export function dequantizeInt8(
+  codes: Int8Array,
+  offset: number,
+  dim: number,
+  scale: number,
+  out: Float32Array = new Float32Array(dim),
+): Float32Array {
+  for (let i = 0; i < dim; i++) out[i] = codes[offset + i] * scale
+  return out
+}
+
+/** Squared Euclidean distance against int8 codes. */
+export function euclideanInt8(query: Vector, codes: Int8Array, offset: number, scale: number): number {
+  const len = query.length
+  let sum = 0
+  let i = 0
+
+  const limit = len - 3
+  for (; i < limit; i += 4) {
+    const d0 = query[i] - codes[offset + i] * scale
+    const d1 = query[i + 1] - codes[offset + i + 1] * scale
+    const d2 = query[i + 2] - codes[offset + i + 2] * scale
+    const d3 = query[i + 3] - codes[offset + i + 3] * scale
+    sum += d0 * d0 + d1 * d1 + d2 * d2 + d3 * d3
+  }
+
+  for (; i < len; i++) {
+    const d = query[i] - codes[offset + i] * scale
+    sum += d * d
+  }
+
+  return sum
+}
+
+/** Cosine distance against int8 codes. The scale cancels out. */
+export function cosineInt8(query: Vector, codes: Int8Array, offset: number, scale: number): number {
+  const len = query.length
+  let dot = 0
+  let normQ = 0
+  let normC = 0
+
+  for (let i = 0; i < len; i++) {
+    const q = query[i]
+    const c = codes[offset + i]
+    dot += q * c
+    normQ += q * q
+    normC += c * c
+  }
+
+  const denom = Math.sqrt(normQ * normC)
+  if (denom === 0 || scale === 0) return 1
+  return 1 - dot / denom
+}
+
+/** Negated inner product against int8 codes. */
+export function innerProductInt8(query: Vector, codes: Int8Array, offset: number, scale: number): number {
+  const len = query.length
+  let dot = 0
+  let i = 0
+
+  const limit = len - 3
+  for (; i < limit; i += 4) {
+    dot += query[i] * codes[offset + i] + query[i + 1] * codes[offset + i + 1] +
+      query[i + 2] * codes[offset + i + 2] + query[i + 3] * codes[offset + i + 3]
+  }
+
+  for (; i < len; i++) {
+    dot += query[i] * codes[offset + i]
+  }
+
+  return -dot * scale
+}
+
+/** Returns the int8 distance function for the given metric. */
+export function getInt8DistanceFunction(metric: DistanceMetric): Int8DistanceFunction {
+  switch (metric) {
+    case 'euclidean':
+      return euclideanInt8
+    case 'cosine':
+      return cosineInt8
+    case 'inner_product':
+      return innerProductInt8
+    default:
+      throw new Error(`Unknown distance metric: ${metric}`)
+  }
+}
+
+/** Int8 distance for a metric without a specialized kernel: dequantize, then measure. */
+export function decodingInt8(distance: DistanceFunction): Int8DistanceFunction {
+  let scratch = new Float32Array(0)
+  return (query, codes, offset, scale) => {
+    if (scratch.length !== query.length) scratch = new Float32Array(query.length)
+    return distance(query, dequantizeInt8(codes, offset, query.length, scale, scratch))
+  }
+}
+
+/** 32-bit words needed for one sign bit per dimension. */
+export function binaryWords(dim: number): number {
+  return Math.ceil(dim / 32)
+}
+
+/** Pack the sign of each dimension (1 when positive) into `bits` at word `offset`. */
+export function packBinary(vec: Vector, bits: Uint32Array, offset: number): void {
+  const words = binaryWords(vec.length)
+  bits.fill(0, offset, offset + words)
+  for (let i = 0; i < vec.length; i++) {
+    if (vec[i] > 0) bits[offset + (i >>> 5)] |= 1 << (i & 31)
+  }
+}
+
+/** Number of set bits in a 32-bit word. */
+export function popcount(word: number): number {
+  let x = word >>> 0
+  x -= (x >>> 1) & 0x55555555
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333)
+  x = (x + (x >>> 4)) & 0x0F0F0F0F
+  return Math.imul(x, 0x01010101) >>> 24
+}
+
+/** Number of differing bits between two packed codes. */
+export function hamming(a: Uint32Array, aOffset: number, b: Uint32Array, bOffset: number, words: number): number {
+  let sum = 0
+  for (let i = 0; i < words; i++) {
+    sum += popcount(a[aOffset + i] ^ b[bOffset + i])
+  }
+  return sum
+}
@@ -1,15 +1,59 @@
 import { HNSWIndex } from './hnsw_index.ts'
 import { BinaryHeap } from './binary_heap.ts'
 import {
+  type CompactOptions,
   type ExternalId,
   type HNSWConfig,
+  type InsertItem,
+  type Metadata,
+  type MetadataFilter,
+  RUNTIME_FIELDS,
+  type SearchFilter,
   type SearchOptions,
   type SearchResult,
   type ShardConfig,
   type StorageBackend,
   type Vector,
+  type VectorInput,
+  type VectorRecord,
 } from './types.ts'
-import { decodeShard, encodeShard } from './storage/serialization.ts'
+import { decodeShard, decodeVectors, encodeShard, encodeVectors, readConfig, readHeader, readLiveIds } from './storage/serialization.ts'
+import { decodeManifest, encodeManifest, type ManifestShard } from './storage/manifest.ts'
+import { decodeWal, encodeWalRecord, type WalRecord } from './storage/wal.ts'
+import { BuildPool } from './workers/build_pool.ts'
+import { SearchPool } from './workers/search_pool.ts'
+import { isMetadataFilter } from './filter.ts'
+import { getMetric, isBuiltinMetric, toMetricVector } from './metrics.ts'
+
+const SHARD_PREFIX = 'shard-'
+// Float32 vectors of PQ shards with rerank, stored next to the shard they belong to
+const VECTORS_PREFIX = 'vectors-'
+const WAL_KEY = 'wal'
+const MANIFEST_KEY = 'manifest'
+
+// Vector i of a multi-vector document is stored as `${documentId}\u0000${i}`.
+// Its vectors are numbered from 0 without gaps, and user IDs may not contain the separator.
+const SUBVECTOR_SEPARATOR = '\u0000'
+
+/** Config fields that must match the persisted store; RUNTIME_FIELDS may differ from it. */
+const STRUCTURAL_FIELDS = [
+  'dimensions',
+  'metric',
+  'M',
+  'Mmax0',
+  'quantization',
+  'rerank',
+  'pqSubspaces',
+  'vectorType',
+  'mips',
+] as const
+
+/** An InsertItem with its single vector, as shards store them. */
+interface VectorItem {
+  id: ExternalId
+  vector: VectorInput
+  metadata?: Metadata
+}
 
 interface LoadedShard {
   key: string
@@ -29,9 +73,18 @@ export class ShardManager {
   // Global ID → shard key mapping
   private idToShard = new Map<ExternalId, string>()
 
+  // Persisted shards whose IDs are not yet in idToShard
+  private unindexedShards: string[] = []
+
   // Ordered list of shard keys
   private shardKeys: string[] = []
 
+  // Counts of each shard as last written to storage
+  private shardStats = new Map<string, ManifestShard>()
+
+  // Manifest generation, incremented on every manifest write
+  private generation = 0
+
   // Current shard for inserts
   private currentShardKey: string | null = null
   private currentShardCount = 0
@@ -42,6 +95,15 @@ export class ShardManager {
   // Access counter for LRU
   private accessCounter = 0
 
+  // Whether the WAL holds records not yet covered by a flush
+  private walPending = false
+
+  // Bumped on every change to a shard, so search workers know when their copy is stale
+  private shardVersions = new Map<string, number>()
+
+  // Created on the first search when shardConfig.searchWorkers > 0
+  private searchPool: SearchPool | null = null
+
   constructor(
     hnswConfig: HNSWConfig,
     shardConfig: ShardConfig,
@@ -52,6 +114,19 @@ export class ShardManager {
     this.storage = storage
   }
 
+  /** Read the HNSW config a store was built with, or null if nothing is persisted. */
+  static async readPersistedConfig(storage: StorageBackend): Promise<HNSWConfig | null> {
+    const manifestData = await storage.read(MANIFEST_KEY)
+    if (manifestData) return decodeManifest(manifestData).config
+
+    // Stores written before manifests existed: every shard header carries the config
+    const keys = await storage.list()
+    const shardKeys = keys.filter((key) => key.startsWith(SHARD_PREFIX)).sort()
+    if (shardKeys.length === 0) return null
+    const data = await storage.read(shardKeys[0])
+    return data ? readConfig(data) : null
+  }
+
   get size(): number {
     return this.totalCount
   }
@@ -65,113 +140,298 @@ export class ShardManager {
   }
 
   /** Insert a vector. Routes to the current shard, creating a new one if full. */
-  async insert(id: ExternalId, vector: Vector | number[]): Promise<void> {
-    if (this.idToShard.has(id)) {
+  async insert(id: ExternalId, vector: VectorInput, metadata?: Metadata): Promise<void> {
+    if (await this.exists(id)) {
       throw new Error(`Duplicate ID: ${id}`)
     }
 
-    // Get or create current shard
-    if (
-      this.currentShardKey === null ||
-      this.currentShardCount >= this.shardConfig.maxVectorsPerShard
-    ) {
-      await this.createNewShard()
+    const vec = this.toVector(vector)
+    await this.appendToWal({ op: 'insert', id, vector: vec, metadata })
+    await this.applyInsert(id, vec, metadata)
+  }
+
+  /**
+   * Insert a multi-vector document. Each vector is indexed on its own (and may
+   * land in a different shard), all under the document's ID and metadata.
+   */
+  async insertDocument(id: ExternalId, vectors: VectorInput[], metadata?: Metadata): Promise<void> {
+    if (await this.exists(id)) {
+      throw new Error(`Duplicate ID: ${id}`)
+    }
+    if (vectors.length === 0) {
+      throw new Error(`Document ${id} has no vectors`)
     }
 
-    const shard = await this.getShard(this.currentShardKey!)
-    shard.index.insert(id, vector)
-    shard.dirty = true
+    const vecs = vectors.map((vector) => this.toVector(vector))
+    for (let i = 0; i < vecs.length; i++) {
+      const subId = subvectorId(id, i)
+      await this.appendToWal({ op: 'insert', id: subId, vector: vecs[i], metadata })
+      await this.applyInsert(subId, vecs[i], metadata)
+    }
+  }
 
-    this.idToShard.set(id, this.currentShardKey!)
-    this.currentShardCount++
-    this.totalCount++
+  /** Insert a vector, or replace it (and its metadata) in place if the ID already exists. */
+  async upsert(id: ExternalId, vector: VectorInput, metadata?: Metadata): Promise<void> {
+    this.assertValidId(id)
+    const vec = this.toVector(vector)
+    // A multi-vector document of this ID is replaced as a whole
+    if (!(await this.locate(id))) await this.delete(id)
+    await this.appendToWal({ op: 'upsert', id, vector: vec, metadata })
+    await this.applyUpsert(id, vec, metadata)
+  }
+
+  /** Insert a multi-vector document, replacing every vector of an existing item with this ID. */
+  async upsertDocument(id: ExternalId, vectors: VectorInput[], metadata?: Metadata): Promise<void> {
+    this.assertValidId(id)
+    if (vectors.length === 0) {
+      throw new Error(`Document ${id} has no vectors`)
+    }
+    const vecs = vectors.map((vector) => this.toVector(vector))
+    await this.delete(id)
+    await this.insertDocument(id, vecs, metadata)
+  }
+
+  /**
+   * Insert many items in one pass. Items are gathered into shard-sized chunks;
+   * each chunk is inserted into a preallocated index, and every shard that
+   * fills up is written to storage right away. With `buildWorkers` set, chunks
+   * that start a new shard are built concurrently in worker threads. Bulk
+   * inserts bypass the write-ahead log and end with a flush. Returns the
+   * number of vectors inserted, counted like `size`.
+   */
+  async bulkInsert(items: Iterable<InsertItem> | AsyncIterable<InsertItem>): Promise<number> {
+    // Metrics registered on this thread do not exist in workers
+    const workers = isBuiltinMetric(this.hnswConfig.metric) ? this.shardConfig.buildWorkers : 0
+    const pool = workers > 0 ? await BuildPool.create(workers) : null
+    // In-flight worker builds; each settles to the error that stopped it, or null
+    const builds = new Set<Promise<Error | null>>()
+    let inserted = 0
+    let chunk: VectorItem[] = []
+    let room = this.roomInCurrentShard()
+
+    try {
+      for await (const item of items) {
+        // Documents are split into their vectors, which may span chunks
+        for (const vectorItem of await this.vectorItems(item)) {
+          chunk.push(vectorItem)
+          inserted++
+          if (chunk.length < room) continue
+
+          await this.commitChunk(chunk, pool, builds)
+          chunk = []
+          room = this.roomInCurrentShard()
+        }
+      }
+
+      if (chunk.length > 0) {
+        await this.commitChunk(chunk, pool, builds)
+      }
+
+      for (const error of await Promise.all(builds)) {
+        if (error) throw error
+      }
+    } finally {
+      // Let in-flight builds install or roll back before their workers go away,
+      // and record the shards that made it even when the import failed
+      await Promise.all(builds)
+      pool?.close()
+      if (this.storage) await this.writeManifest()
+    }
+
+    await this.flush()
+    return inserted
   }
 
-  /** Search across all shards and merge results. */
+  /** Get a stored vector (or a document's vectors) and its metadata, or null if the ID is missing. */
+  async get(id: ExternalId): Promise<VectorRecord | null> {
+    const shardKey = await this.locate(id)
+    if (!shardKey) {
+      const document = await this.getDocument(id)
+      if (!document) return null
+      const { vectors, metadata } = document
+      return metadata === undefined ? { id, vector: vectors[0], vectors } : { id, vector: vectors[0], vectors, metadata }
+    }
+
+    const shard = await this.getShard(shardKey)
+    const vector = shard.index.getVector(id)
+    if (!vector) return null
+    const metadata = shard.index.getMetadata(id)
+    return metadata === undefined ? { id, vector } : { id, vector, metadata }
+  }
+
+  /**
+   * Search across all shards and merge results. Once multi-vector documents
+   * show up among the hits, the search is redone per document.
+   */
   async search(
-    query: Vector | number[],
+    query: VectorInput,
     k: number,
     options?: SearchOptions,
   ): Promise<SearchResult[]> {
-    const q = query instanceof Float32Array ? query : new Float32Array(query)
+    const q = toMetricVector(query, this.hnswConfig.metric)
+    const merged = await this.searchVectors(q, k, options)
+    if (merged.some((result) => isSubvectorId(result.id))) {
+      return this.searchDocuments([q], k, options)
+    }
+
+    this.applyScores(merged, options)
+    await this.attachPayloads(merged, options)
+    return merged
+  }
+
+  /**
+   * Search with several query vectors at once (e.g. the token embeddings of a
+   * late-interaction model), ranking documents by `options.aggregate`.
+   */
+  async searchMulti(
+    queries: VectorInput[],
+    k: number,
+    options?: SearchOptions,
+  ): Promise<SearchResult[]> {
+    const qs = queries.map((query) => toMetricVector(query, this.hnswConfig.metric))
+    return qs.length === 0 ? [] : await this.searchDocuments(qs, k, options)
+  }
+
+  /** Find every vector within `radius` of the query across all shards, nearest first. */
+  async rangeSearch(
+    query: VectorInput,
+    radius: number,
+    options?: SearchOptions,
+  ): Promise<SearchResult[]> {
+    const q = toMetricVector(query, this.hnswConfig.metric)
 
-    // Load all shards and search in parallel
     const shardPromises = this.shardKeys.map(async (key) => {
       const shard = await this.getShard(key)
-      return shard.index.search(q, k, options?.efSearch, options?.filter)
+      return shard.index.rangeSearch(q, radius, options?.efSearch, documentFilter(options?.filter))
     })
 
-    const allResults = await Promise.all(shardPromises)
-
-    // Merge results using a min-heap
-    const heap = new BinaryHeap<SearchResult>(
-      (a, b) => a.distance - b.distance,
-    )
+    const hits = (await Promise.all(shardPromises)).flat()
+    hits.sort((a, b) => a.distance - b.distance)
 
-    for (const results of allResults) {
-      for (const result of results) {
-        heap.push(result)
-      }
+    // A document is in range through its nearest vector
+    const seen = new Set<ExternalId>()
+    const merged: SearchResult[] = []
+    for (const hit of hits) {
+      const id = documentIdOf(hit.id)
+      if (seen.has(id)) continue
+      seen.add(id)
+      merged.push({ id, distance: hit.distance })
     }
 
-    // Extract top-k
-    const merged: SearchResult[] = []
-    while (merged.length < k && heap.size > 0) {
-      const item = heap.pop()!
-      if (options?.includeVectors) {
-        // Find vector from the correct shard
-        const shardKey = this.idToShard.get(item.id)
-        if (shardKey) {
-          const shard = await this.getShard(shardKey)
-          item.vector = shard.index.getVector(item.id) ?? undefined
+    this.applyScores(merged, options)
+    await this.attachPayloads(merged, options)
+    return merged
+  }
+
+  /**
+   * Search many queries at once. Shards are visited one at a time and every
+   * query runs against a shard before the next is loaded, so each shard is
+   * read at most once per batch. Results are returned in query order.
+   *
+   * Multi-vector documents are ranked in the same pass: with a single query
+   * vector, a document's distance under either aggregate is that of its
+   * nearest vector, taken over the vectors each shard returns.
+   */
+  async searchBatch(
+    queries: VectorInput[],
+    k: number,
+    options?: SearchOptions,
+  ): Promise<SearchResult[][]> {
+    const qs = queries.map((query) => toMetricVector(query, this.hnswConfig.metric))
+    // Look past k vectors, as a document may take several of the nearest slots
+    const count = Math.max(k, options?.efSearch ?? this.hnswConfig.efSearch)
+    const nearest: SearchResult[][] = qs.map(() => [])
+
+    for (const key of this.shardKeys) {
+      const shard = await this.getShard(key)
+      for (let i = 0; i < qs.length; i++) {
+        const results = shard.index.search(qs[i], count, options?.efSearch, documentFilter(options?.filter))
+        if (results.length === 0) continue
+
+        const best = new Map(nearest[i].map((item) => [item.id, item]))
+        const storedIds = new Map<SearchResult, ExternalId>()
+        for (const hit of results) {
+          const id = documentIdOf(hit.id)
+          const current = best.get(id)
+          if (current && current.distance <= hit.distance) continue
+          const item: SearchResult = { id, distance: hit.distance }
+          best.set(id, item)
+          storedIds.set(item, hit.id)
+        }
+        nearest[i] = [...best.values()].sort((a, b) => a.distance - b.distance).slice(0, k)
+
+        // Attach payloads to the new top-k entries now, while the shard is still loaded
+        for (const item of nearest[i]) {
+          const storedId = storedIds.get(item)
+          if (storedId !== undefined) this.attachFromHit(item, storedId, shard, options)
         }
       }
-      merged.push(item)
     }
 
-    return merged
+    for (const results of nearest) {
+      // A document's vectors may span shards, so they are gathered once the pass is done
+      if (options?.includeVectors) await this.attachPayloads(results.filter((item) => item.vector === undefined), options)
+      this.applyScores(results, options)
+    }
+    return nearest
   }
 
-  /** Delete a vector by external ID. */
+  /** Delete a vector, or every vector of a multi-vector document, by external ID. */
   async delete(id: ExternalId): Promise<boolean> {
-    const shardKey = this.idToShard.get(id)
-    if (!shardKey) return false
-
-    const shard = await this.getShard(shardKey)
-    const deleted = shard.index.delete(id)
-    if (deleted) {
-      shard.dirty = true
-      this.idToShard.delete(id)
-      this.totalCount--
+    const ids = await this.storedIdsOf(id)
+    // Last vector first, so an interrupted delete leaves the document's vectors numbered without gaps
+    for (let i = ids.length - 1; i >= 0; i--) {
+      await this.appendToWal({ op: 'delete', id: ids[i] })
+      await this.applyDelete(ids[i])
     }
-    return deleted
+    return ids.length > 0
   }
 
-  /** Flush all dirty shards to storage. */
+  /** Flush all dirty shards and the manifest to storage, then truncate the write-ahead log. */
   async flush(): Promise<void> {
     if (!this.storage) return
 
     const promises: Promise<void>[] = []
     for (const [, shard] of this.loadedShards) {
       if (shard.dirty) {
-        const data = encodeShard(shard.index)
-        promises.push(
-          this.storage.write(shard.key, data).then(() => {
-            shard.dirty = false
-          }),
-        )
+        promises.push(this.persistShard(shard))
       }
     }
     await Promise.all(promises)
+
+    if (promises.length > 0 || this.generation === 0) {
+      await this.writeManifest()
+    }
+
+    // Checkpoint: every logged mutation is now in a persisted shard
+    if (this.walPending) {
+      await this.storage.delete(WAL_KEY)
+      this.walPending = false
+    }
   }
 
-  /** Compact all shards (rebuild without deleted nodes). */
-  async compact(): Promise<void> {
-    for (const key of this.shardKeys) {
-      const shard = await this.getShard(key)
-      const compacted = shard.index.compact()
-      shard.index = compacted
-      shard.dirty = true
+  /**
+   * Compact shards one at a time, dropping deleted slots. Shards without
+   * deletions are skipped without being loaded.
+   */
+  async compact(options?: CompactOptions): Promise<void> {
+    const shardsTotal = this.shardKeys.length
+    for (let i = 0; i < shardsTotal; i++) {
+      const key = this.shardKeys[i]
+      let removed = 0
+
+      if (this.deletedCountOf(key) > 0) {
+        const shard = await this.getShard(key)
+        const compacted = shard.index.compact()
+        removed = shard.index.totalAllocated - compacted.totalAllocated
+        shard.index = compacted
+        this.markModified(shard)
+        if (key === this.currentShardKey) {
+          this.currentShardCount = compacted.totalAllocated
+        }
+      }
+
+      options?.onProgress?.({ shardKey: key, shardsDone: i + 1, shardsTotal, removed })
     }
   }
 
@@ -179,28 +439,282 @@ export class ShardManager {
   async close(): Promise<void> {
     await this.flush()
     this.loadedShards.clear()
+    this.searchPool?.close()
+    this.searchPool = null
   }
 
-  /** Load shard metadata from storage (for reopening a persisted index). */
+  /**
+   * Load shard metadata from storage (for reopening a persisted index).
+   * Shards are found through the manifest and only read when first needed.
+   */
   async loadFromStorage(): Promise<void> {
     if (!this.storage) return
 
-    const keys = await this.storage.list()
-    this.shardKeys = keys.sort()
+    const manifestData = await this.storage.read(MANIFEST_KEY)
+    if (manifestData) {
+      const manifest = decodeManifest(manifestData)
+      this.assertCompatible(manifest.config)
+      this.generation = manifest.generation
 
-    for (const key of this.shardKeys) {
-      const data = await this.storage.read(key)
+      for (const entry of manifest.shards) {
+        this.shardKeys.push(entry.key)
+        this.shardStats.set(entry.key, entry)
+        this.totalCount += entry.count - entry.deletedCount
+      }
+      this.unindexedShards = [...this.shardKeys]
+    } else {
+      await this.loadShardsWithoutManifest()
+    }
+
+    // Set current shard
+    if (this.shardKeys.length > 0) {
+      const lastKey = this.shardKeys[this.shardKeys.length - 1]
+      this.currentShardKey = lastKey
+      // Tombstoned slots still occupy the shard until it is compacted
+      this.currentShardCount = this.shardStats.get(lastKey)!.count
+    }
+
+    await this.replayWal()
+  }
+
+  // --- Private ---
+
+  /** The nearest `k` stored vectors across all shards; multi-vector documents appear once per matching vector. */
+  private async searchVectors(q: Vector, k: number, options?: SearchOptions): Promise<SearchResult[]> {
+    const filter = options?.filter
+
+    // Callback filters cannot be sent to workers, and workers do not load the
+    // vectors PQ reranking needs; those searches stay on this thread
+    const onThisThread = (filter && !isMetadataFilter(filter)) || this.keepsSeparateVectors()
+    const pool = onThisThread ? null : await this.getSearchPool()
+
+    // Search every shard: on its owning worker, or on this thread. The write
+    // shard changes with every insert, so while it has unpersisted changes it is
+    // searched here rather than re-encoded for its worker each time
+    const shardPromises = this.shardKeys.map(async (key) => {
+      const writing = key === this.currentShardKey && this.loadedShards.get(key)?.dirty
+      if (pool && !writing) {
+        const version = this.shardVersions.get(key) ?? 0
+        const efSearch = options?.efSearch ?? this.hnswConfig.efSearch
+        return pool.search(key, version, () => this.encodedShard(key), q, k, efSearch, filter as MetadataFilter | undefined)
+      }
+      const shard = await this.getShard(key)
+      return shard.index.search(q, k, options?.efSearch, documentFilter(filter))
+    })
+
+    const allResults = await Promise.all(shardPromises)
+
+    // Merge results using a min-heap
+    const heap = new BinaryHeap<SearchResult>(
+      (a, b) => a.distance - b.distance,
+    )
+
+    for (const results of allResults) {
+      for (const result of results) {
+        heap.push(result)
+      }
+    }
+
+    // Extract top-k
+    const merged: SearchResult[] = []
+    while (merged.length < k && heap.size > 0) {
+      merged.push(heap.pop()!)
+    }
+    return merged
+  }
+
+  /**
+   * Rank documents for one or more query vectors. Candidates come from each
+   * query vector's nearest stored vectors; every candidate is then scored
+   * exactly against all of its vectors and aggregated per `options.aggregate`.
+   */
+  private async searchDocuments(queries: Vector[], k: number, options?: SearchOptions): Promise<SearchResult[]> {
+    // Look past k vectors, as a document may take several of the nearest slots
+    const candidateCount = Math.max(k, options?.efSearch ?? this.hnswConfig.efSearch)
+    const candidates = new Set<ExternalId>()
+    for (const q of queries) {
+      for (const hit of await this.searchVectors(q, candidateCount, options)) {
+        candidates.add(documentIdOf(hit.id))
+      }
+    }
+
+    const sumOfMax = (options?.aggregate ?? 'sum_of_max') === 'sum_of_max'
+    // With `score`, each query vector's best match is converted before aggregating,
+    // and documents are ranked by that sum: a similarity score ranks highest first
+    const score = options?.score ? getMetric(this.hnswConfig.metric).score : undefined
+    const convert = score ?? ((distance: number) => distance)
+    const direction = score && score(1) < score(0) ? -1 : 1
+    const ranked: SearchResult[] = []
+    for (const id of candidates) {
+      const best = new Array<number>(queries.length).fill(Infinity)
+      for (const storedId of await this.storedIdsOf(id)) {
+        const shard = await this.getShard((await this.locate(storedId))!)
+        for (let j = 0; j < queries.length; j++) {
+          const d = shard.index.distanceTo(queries[j], storedId)!
+          if (d < best[j]) best[j] = d
+        }
+      }
+
+      const distance = sumOfMax ? best.reduce((sum, d) => sum + convert(d), 0) : convert(Math.min(...best))
+      ranked.push({ id, distance })
+    }
+
+    ranked.sort((a, b) => direction * (a.distance - b.distance))
+    const results = ranked.slice(0, k)
+    await this.attachPayloads(results, options)
+    return results
+  }
+
+  /** The stored IDs behind an item: the ID itself, or the numbered vectors of a multi-vector document. */
+  private async storedIdsOf(id: ExternalId): Promise<ExternalId[]> {
+    if (await this.locate(id)) return [id]
+    const ids: ExternalId[] = []
+    while (await this.locate(subvectorId(id, ids.length))) {
+      ids.push(subvectorId(id, ids.length))
+    }
+    return ids
+  }
+
+  /** Whether a vector or a multi-vector document is stored under this ID. */
+  private async exists(id: ExternalId): Promise<boolean> {
+    this.assertValidId(id)
+    return (await this.locate(id)) !== undefined || (await this.locate(subvectorId(id, 0))) !== undefined
+  }
+
+  private assertValidId(id: ExternalId): void {
+    if (isSubvectorId(id)) {
+      throw new Error(`IDs must not contain U+0000: ${JSON.stringify(id)}`)
+    }
+  }
+
+  /** Vectors and metadata of a multi-vector document, or null if there is none by this ID. */
+  private async getDocument(id: ExternalId): Promise<{ vectors: Vector[]; metadata?: Metadata } | null> {
+    const ids = await this.storedIdsOf(id)
+    if (ids.length === 0) return null
+
+    const vectors: Vector[] = []
+    for (const storedId of ids) {
+      const shard = await this.getShard((await this.locate(storedId))!)
+      vectors.push(shard.index.getVector(storedId)!)
+    }
+    const shard = await this.getShard((await this.locate(ids[0]))!)
+    return { vectors, metadata: shard.index.getMetadata(ids[0]) }
+  }
+
+  /** Split an item into the single-vector items shards store, rejecting IDs that are taken. */
+  private async vectorItems(item: InsertItem): Promise<VectorItem[]> {
+    if ((item.vector === undefined) === (item.vectors === undefined)) {
+      throw new Error(`Item ${item.id} must have exactly one of vector and vectors`)
+    }
+    if (item.vector !== undefined) {
+      // Plain IDs are checked shard by shard; only a document of this ID is looked for here
+      this.assertValidId(item.id)
+      if (await this.locate(subvectorId(item.id, 0))) throw new Error(`Duplicate ID: ${item.id}`)
+      return [{ id: item.id, vector: item.vector, metadata: item.metadata }]
+    }
+
+    if (await this.exists(item.id)) throw new Error(`Duplicate ID: ${item.id}`)
+    if (item.vectors!.length === 0) throw new Error(`Document ${item.id} has no vectors`)
+    return item.vectors!.map((vector, i) => ({ id: subvectorId(item.id, i), vector, metadata: item.metadata }))
+  }
+
+  private async getSearchPool(): Promise<SearchPool | null> {
+    const workers = isBuiltinMetric(this.hnswConfig.metric) ? this.shardConfig.searchWorkers : 0
+    if (workers > 0 && !this.searchPool) {
+      this.searchPool = await SearchPool.create(workers, this.shardConfig.maxLoadedShards)
+    }
+    return this.searchPool
+  }
+
+  /** Current bytes of a shard, for a search worker: encoded from memory if loaded, else read from storage. */
+  private async encodedShard(key: string): Promise<Uint8Array> {
+    const loaded = this.loadedShards.get(key)
+    if (loaded) return encodeShard(loaded.index)
+
+    const data = await this.storage?.read(key)
+    if (!data) {
+      throw new Error(`Shard ${key} not found in storage`)
+    }
+    return data
+  }
+
+  /** Convert merged distances to user-facing scores when `options.score` is set. */
+  private applyScores(results: SearchResult[], options?: SearchOptions): void {
+    if (!options?.score) return
+    const score = getMetric(this.hnswConfig.metric).score
+    if (!score) return
+    for (const item of results) item.distance = score(item.distance)
+  }
+
+  /** Attach vectors and metadata to results as requested by the search options. */
+  private async attachPayloads(results: SearchResult[], options?: SearchOptions): Promise<void> {
+    if (!options?.includeVectors && !options?.includeMetadata) return
+
+    for (const item of results) {
+      // Find vector and metadata from the correct shard
+      const shardKey = await this.locate(item.id)
+      if (shardKey) {
+        this.attachFromHit(item, item.id, await this.getShard(shardKey), options)
+        continue
+      }
+
+      const document = await this.getDocument(item.id)
+      if (!document) continue
+      if (options?.includeVectors) {
+        item.vector = document.vectors[0]
+        item.vectors = document.vectors
+      }
+      if (options?.includeMetadata && document.metadata !== undefined) item.metadata = document.metadata
+    }
+  }
+
+  /** Attach vectors and metadata of the vector stored as `storedId` to an item: the vector itself, or its document. */
+  private attachFromHit(item: SearchResult, storedId: ExternalId, shard: LoadedShard, options?: SearchOptions): void {
+    if (options?.includeVectors && storedId === item.id) {
+      item.vector = shard.index.getVector(storedId) ?? undefined
+    }
+    if (options?.includeMetadata) {
+      const metadata = shard.index.getMetadata(storedId)
+      if (metadata !== undefined) item.metadata = metadata
+    }
+  }
+
+  private toVector(vector: VectorInput): Vector {
+    const vec = toMetricVector(vector, this.hnswConfig.metric)
+    if (vec.length !== this.hnswConfig.dimensions) {
+      throw new Error(
+        `Vector dimension mismatch: expected ${this.hnswConfig.dimensions}, got ${vec.length}`,
+      )
+    }
+    return vec
+  }
+
+  /** Stores written before manifests existed: discover shards by listing storage. */
+  private async loadShardsWithoutManifest(): Promise<void> {
+    const keys = await this.storage!.list()
+    const shardKeys = keys.filter((key) => key.startsWith(SHARD_PREFIX)).sort()
+
+    for (const key of shardKeys) {
+      const data = await this.storage!.read(key)
       if (!data) continue
 
-      const index = decodeShard(data)
+      const index = decodeShard(data, this.runtimeSettings())
+      this.assertCompatible(index.config)
       const state = index.getInternalState()
 
-      // Rebuild ID mapping
+      // Rebuild ID mapping, skipping tombstoned vectors
       for (let i = 0; i < state.count; i++) {
+        if (state.deleted.has(i)) continue
         const extId = state.internalToExternal[i]
         this.idToShard.set(extId, key)
       }
 
+      this.shardKeys.push(key)
+      this.shardStats.set(key, {
+        key,
+        count: index.totalAllocated,
+        deletedCount: index.totalAllocated - index.size,
+      })
       this.totalCount += index.size
 
       // Keep loaded if we have capacity
@@ -213,26 +727,318 @@ export class ShardManager {
         })
       }
     }
+  }
 
-    // Set current shard
-    if (this.shardKeys.length > 0) {
-      const lastKey = this.shardKeys[this.shardKeys.length - 1]
-      this.currentShardKey = lastKey
-      const shard = await this.getShard(lastKey)
-      this.currentShardCount = shard.index.size
+  private assertCompatible(persisted: HNSWConfig): void {
+    for (const field of STRUCTURAL_FIELDS) {
+      if (persisted[field] !== this.hnswConfig[field]) {
+        throw new Error(
+          `Config mismatch: store was built with ${field}=${persisted[field]}, but ${field}=${this.hnswConfig[field]} was given`,
+        )
+      }
     }
   }
 
-  // --- Private ---
+  /** Find the shard holding a live ID, reading persisted ID tables on first use. */
+  private async locate(id: ExternalId): Promise<string | undefined> {
+    const key = this.idToShard.get(id)
+    if (key !== undefined || this.unindexedShards.length === 0) return key
+
+    // No mutation can happen before this runs, so stored ID tables are current
+    for (const shardKey of this.unindexedShards) {
+      const data = await this.storage!.read(shardKey)
+      if (!data) throw new Error(`Shard ${shardKey} not found in storage`)
+      for (const extId of readLiveIds(data)) {
+        this.idToShard.set(extId, shardKey)
+      }
+    }
+    this.unindexedShards = []
+
+    return this.idToShard.get(id)
+  }
+
+  private deletedCountOf(key: string): number {
+    const loaded = this.loadedShards.get(key)
+    if (loaded) return loaded.index.totalAllocated - loaded.index.size
+    return this.shardStats.get(key)?.deletedCount ?? 0
+  }
+
+  private async persistShard(shard: LoadedShard): Promise<void> {
+    const data = encodeShard(shard.index)
+    await this.storage!.write(shard.key, data)
+    if (this.keepsSeparateVectors()) {
+      const state = shard.index.getInternalState()
+      await this.storage!.write(this.vectorsKey(shard.key), encodeVectors(state.vectors, state.count, this.hnswConfig.dimensions))
+    }
+    shard.dirty = false
+    this.shardStats.set(shard.key, {
+      key: shard.key,
+      count: shard.index.totalAllocated,
+      deletedCount: shard.index.totalAllocated - shard.index.size,
+    })
+  }
+
+  /** Record every shard that exists in storage. Shards never written are left out. */
+  private async writeManifest(): Promise<void> {
+    this.generation++
+    const shards: ManifestShard[] = []
+    for (const key of this.shardKeys) {
+      const stats = this.shardStats.get(key)
+      if (stats) shards.push(stats)
+    }
+    await this.storage!.write(
+      MANIFEST_KEY,
+      encodeManifest({ generation: this.generation, config: this.hnswConfig, shards }),
+    )
+  }
+
+  private async applyInsert(id: ExternalId, vec: Vector, metadata?: Metadata): Promise<void> {
+    // Get or create current shard
+    if (
+      this.currentShardKey === null ||
+      this.currentShardCount >= this.shardConfig.maxVectorsPerShard
+    ) {
+      await this.createNewShard()
+    }
+
+    const shard = await this.getShard(this.currentShardKey!)
+    shard.index.insert(id, vec, metadata)
+    this.markModified(shard)
+
+    this.idToShard.set(id, this.currentShardKey!)
+    // Reviving a tombstoned ID reuses its slot, so read the count back
+    this.currentShardCount = shard.index.totalAllocated
+    this.totalCount++
+  }
+
+  /** Flag a shard as changed: it must be persisted, and search workers must reload it. */
+  private markModified(shard: LoadedShard): void {
+    shard.dirty = true
+    this.shardVersions.set(shard.key, (this.shardVersions.get(shard.key) ?? 0) + 1)
+  }
+
+  private currentShardIsFull(): boolean {
+    return this.currentShardKey === null || this.currentShardCount >= this.shardConfig.maxVectorsPerShard
+  }
+
+  private roomInCurrentShard(): number {
+    const max = this.shardConfig.maxVectorsPerShard
+    return this.currentShardIsFull() ? max : max - this.currentShardCount
+  }
 
-  private async createNewShard(): Promise<void> {
-    const idx = this.shardKeys.length
-    const key = `shard-${String(idx).padStart(6, '0')}`
+  /** Insert a chunk: fresh shards go to a build worker when a pool is given. */
+  private async commitChunk(
+    chunk: VectorItem[],
+    pool: BuildPool | null,
+    builds: Set<Promise<Error | null>>,
+  ): Promise<void> {
+    if (pool && this.currentShardIsFull()) {
+      await this.dispatchBuild(pool, chunk, builds)
+    } else {
+      await this.fillCurrentShard(chunk)
+    }
+  }
+
+  /**
+   * Start building a chunk as a new shard on a worker. IDs are validated and
+   * registered up front, so later chunks see them as taken, and unregistered
+   * again if the build fails. Waits first if every worker is busy.
+   */
+  private async dispatchBuild(
+    pool: BuildPool,
+    chunk: VectorItem[],
+    builds: Set<Promise<Error | null>>,
+  ): Promise<void> {
+    if (builds.size >= this.shardConfig.buildWorkers) {
+      const error = await Promise.race(builds)
+      if (error) throw error
+    }
+
+    const dim = this.hnswConfig.dimensions
+    const ids: string[] = []
+    const metadata: (Metadata | undefined)[] = []
+    const vectors = new Float32Array(chunk.length * dim)
+    const seen = new Set<ExternalId>()
+
+    for (let i = 0; i < chunk.length; i++) {
+      const item = chunk[i]
+      if (seen.has(item.id) || (await this.locate(item.id))) {
+        throw new Error(`Duplicate ID: ${item.id}`)
+      }
+      seen.add(item.id)
+      ids.push(item.id)
+      metadata.push(item.metadata)
+      vectors.set(this.toVector(item.vector), i * dim)
+    }
+
+    const key = this.nextShardKey()
+    for (const id of ids) this.idToShard.set(id, key)
+    this.currentShardKey = key
+    this.currentShardCount = ids.length
+    this.totalCount += ids.length
+
+    const build: Promise<Error | null> = pool.build({ config: this.hnswConfig, ids, vectors, metadata })
+      .then((data) => this.installBuiltShard(key, data, vectors))
+      .then(() => null, (e) => {
+        this.abandonBuild(key, ids)
+        return e instanceof Error ? e : new Error(String(e))
+      })
+      .finally(() => builds.delete(build))
+    builds.add(build)
+  }
+
+  /** Forget a shard whose worker build failed, along with the IDs registered for it. */
+  private abandonBuild(key: string, ids: ExternalId[]): void {
+    for (const id of ids) {
+      if (this.idToShard.get(id) === key) this.idToShard.delete(id)
+    }
+    this.shardKeys.splice(this.shardKeys.indexOf(key), 1)
+    this.shardStats.delete(key)
+    this.loadedShards.delete(key)
+    this.totalCount -= ids.length
+    if (this.currentShardKey === key) {
+      this.currentShardKey = null
+      this.currentShardCount = 0
+    }
+  }
+
+  /**
+   * Store an encoded shard produced by a worker, along with its input vectors
+   * when PQ reranking needs them. Without storage it is decoded and kept in memory.
+   */
+  private async installBuiltShard(key: string, data: Uint8Array, vectors: Float32Array): Promise<void> {
+    const count = readHeader(data).count
+    if (this.storage) {
+      await this.storage.write(key, data)
+      if (this.keepsSeparateVectors()) {
+        await this.storage.write(this.vectorsKey(key), encodeVectors(vectors, count, this.hnswConfig.dimensions))
+      }
+      this.shardStats.set(key, { key, count, deletedCount: 0 })
+      return
+    }
+
+    const index = decodeShard(data, this.runtimeSettings())
+    if (this.keepsSeparateVectors()) index.attachVectors(vectors)
+    this.loadedShards.set(key, {
+      key,
+      index,
+      dirty: true,
+      lastAccess: this.accessCounter++,
+    })
+    await this.evictIfNeeded()
+  }
+
+  /** Insert a chunk that fits in the current shard, persisting the shard once it is full. */
+  private async fillCurrentShard(chunk: VectorItem[]): Promise<void> {
+    if (this.currentShardIsFull()) {
+      await this.createNewShard(chunk.length)
+    }
+
+    const shard = await this.getShard(this.currentShardKey!)
+    shard.index.reserve(shard.index.totalAllocated + chunk.length)
+
+    for (const item of chunk) {
+      if (await this.locate(item.id)) {
+        throw new Error(`Duplicate ID: ${item.id}`)
+      }
+      shard.index.insert(item.id, this.toVector(item.vector), item.metadata)
+      this.markModified(shard)
+      this.idToShard.set(item.id, shard.key)
+      this.currentShardCount = shard.index.totalAllocated
+      this.totalCount++
+    }
+
+    if (this.storage && this.currentShardCount >= this.shardConfig.maxVectorsPerShard) {
+      await this.persistShard(shard)
+      await this.writeManifest()
+    }
+  }
+
+  private async applyUpsert(id: ExternalId, vec: Vector, metadata?: Metadata): Promise<void> {
+    const shardKey = await this.locate(id)
+    if (!shardKey) {
+      await this.applyInsert(id, vec, metadata)
+      return
+    }
+
+    const shard = await this.getShard(shardKey)
+    shard.index.upsert(id, vec, metadata)
+    this.markModified(shard)
+  }
+
+  private async applyDelete(id: ExternalId): Promise<boolean> {
+    const shardKey = await this.locate(id)
+    if (!shardKey) return false
+
+    const shard = await this.getShard(shardKey)
+    const deleted = shard.index.delete(id)
+    if (deleted) {
+      this.markModified(shard)
+      this.idToShard.delete(id)
+      this.totalCount--
+    }
+    return deleted
+  }
+
+  private async appendToWal(record: WalRecord): Promise<void> {
+    if (!this.storage || !this.shardConfig.writeAheadLog) return
+
+    const data = encodeWalRecord(record)
+    if (this.storage.append) {
+      await this.storage.append(WAL_KEY, data)
+    } else {
+      const existing = await this.storage.read(WAL_KEY)
+      if (existing) {
+        const combined = new Uint8Array(existing.byteLength + data.byteLength)
+        combined.set(existing)
+        combined.set(data, existing.byteLength)
+        await this.storage.write(WAL_KEY, combined)
+      } else {
+        await this.storage.write(WAL_KEY, data)
+      }
+    }
+    this.walPending = true
+  }
+
+  /** Re-apply mutations logged after the last flush. */
+  private async replayWal(): Promise<void> {
+    const data = await this.storage!.read(WAL_KEY)
+    if (!data) return
+
+    for (const record of decodeWal(data)) {
+      if (record.op === 'insert') {
+        // Already persisted if its shard was written before the crash
+        if (await this.locate(record.id)) continue
+        await this.applyInsert(record.id, record.vector, record.metadata)
+      } else if (record.op === 'upsert') {
+        await this.applyUpsert(record.id, record.vector, record.metadata)
+      } else {
+        await this.applyDelete(record.id)
+      }
+    }
+    this.walPending = true
+  }
+
+  /** This store's runtime settings, which shards decoded from storage use instead of their own. */
+  private runtimeSettings(): Partial<HNSWConfig> {
+    return Object.fromEntries([...RUNTIME_FIELDS].map((field) => [field, this.hnswConfig[field]]))
+  }
+
+  private nextShardKey(): string {
+    // Follow the last key rather than counting, as abandoned builds leave gaps
+    const last = this.shardKeys[this.shardKeys.length - 1]
+    const next = last === undefined ? 0 : Number(last.slice(SHARD_PREFIX.length)) + 1
+    const key = `${SHARD_PREFIX}${String(next).padStart(6, '0')}`
     this.shardKeys.push(key)
+    return key
+  }
+
+  private async createNewShard(initialCapacity?: number): Promise<void> {
+    const key = this.nextShardKey()
     this.currentShardKey = key
     this.currentShardCount = 0
 
-    const index = new HNSWIndex(this.hnswConfig)
+    const index = new HNSWIndex(this.hnswConfig, initialCapacity)
     this.loadedShards.set(key, {
       key,
       index,
@@ -244,6 +1050,15 @@ export class ShardManager {
     await this.evictIfNeeded()
   }
 
+  /** PQ shards hold only codes; with rerank their float32 vectors live under a separate key. */
+  private keepsSeparateVectors(): boolean {
+    return this.hnswConfig.quantization === 'pq' && this.hnswConfig.rerank
+  }
+
+  private vectorsKey(shardKey: string): string {
+    return VECTORS_PREFIX + shardKey.slice(SHARD_PREFIX.length)
+  }
+
   private async getShard(key: string): Promise<LoadedShard> {
     const loaded = this.loadedShards.get(key)
     if (loaded) {
@@ -261,7 +1076,15 @@ export class ShardManager {
       throw new Error(`Shard ${key} not found in storage`)
     }
 
-    const index = decodeShard(data)
+    const index = decodeShard(data, this.runtimeSettings())
+    if (this.keepsSeparateVectors()) {
+      const vectors = await this.storage.read(this.vectorsKey(key))
+      if (!vectors) {
+        throw new Error(`Vectors of shard ${key} not found in storage`)
+      }
+      index.attachVectors(decodeVectors(vectors))
+    }
+
     const shard: LoadedShard = {
       key,
       index,
@@ -296,11 +1119,31 @@ export class ShardManager {
 
       // Persist if dirty
       if (shard.dirty && this.storage) {
-        const data = encodeShard(shard.index)
-        await this.storage.write(shard.key, data)
+        await this.persistShard(shard)
+        await this.writeManifest()
       }
 
       this.loadedShards.delete(lruKey)
     }
   }
 }
+
+function subvectorId(documentId: ExternalId, i: number): ExternalId {
+  return `${documentId}${SUBVECTOR_SEPARATOR}${i}`
+}
+
+function isSubvectorId(id: ExternalId): boolean {
+  return id.includes(SUBVECTOR_SEPARATOR)
+}
+
+/** The ID of the item a stored vector belongs to. */
+function documentIdOf(id: ExternalId): ExternalId {
+  const separator = id.indexOf(SUBVECTOR_SEPARATOR)
+  return separator === -1 ? id : id.slice(0, separator)
+}
+
+/** Callback filters see item IDs, never the IDs of a document's vectors. */
+function documentFilter(filter: SearchFilter | undefined): SearchFilter | undefined {
+  if (typeof filter !== 'function') return filter
+  return (id) => filter(documentIdOf(id))
+}
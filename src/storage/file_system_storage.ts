@@ -63,6 +63,11 @@ export class FileSystemStorage implements StorageBackend {
     return keys
   }
 
+  async append(key: string, data: Uint8Array): Promise<void> {
+    await fs.mkdir(this.basePath, { recursive: true })
+    await fs.appendFile(this.filePath(key), data)
+  }
+
   async exists(key: string): Promise<boolean> {
     try {
       await fs.stat(this.filePath(key))
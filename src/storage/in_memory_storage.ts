@@ -23,4 +23,16 @@ export class InMemoryStorage implements StorageBackend {
   async exists(key: string): Promise<boolean> {
     return this.store.has(key)
   }
+
+  async append(key: string, data: Uint8Array): Promise<void> {
+    const existing = this.store.get(key)
+    if (!existing) {
+      this.store.set(key, new Uint8Array(data))
+      return
+    }
+    const combined = new Uint8Array(existing.byteLength + data.byteLength)
+    combined.set(existing)
+    combined.set(data, existing.byteLength)
+    this.store.set(key, combined)
+  }
 }
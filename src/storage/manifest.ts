@@ -0,0 +1,41 @@
+import { defaultHNSWConfig, type HNSWConfig } from '../types.ts'
+
+const MANIFEST_VERSION = 1
+
+/** Per-shard entry in the store manifest. */
+export interface ManifestShard {
+  key: string
+  /** Allocated slots, including tombstones. */
+  count: number
+  deletedCount: number
+}
+
+/** Describes a persisted store: its shards, HNSW config and format version. */
+export interface Manifest {
+  formatVersion: number
+  /** Incremented on every manifest write. */
+  generation: number
+  config: HNSWConfig
+  shards: ManifestShard[]
+}
+
+/** Encode a manifest as UTF-8 JSON. */
+export function encodeManifest(manifest: Omit<Manifest, 'formatVersion'>): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify({ formatVersion: MANIFEST_VERSION, ...manifest }),
+  )
+}
+
+/** Decode and validate a manifest. */
+export function decodeManifest(data: Uint8Array): Manifest {
+  const manifest = JSON.parse(new TextDecoder().decode(data)) as Manifest
+  if (manifest.formatVersion !== MANIFEST_VERSION) {
+    throw new Error(`Unsupported manifest version: ${manifest.formatVersion}`)
+  }
+  if (!manifest.config || !Array.isArray(manifest.shards)) {
+    throw new Error('Invalid manifest: missing config or shards')
+  }
+  // Config fields added after the manifest was written take their defaults
+  manifest.config = defaultHNSWConfig(manifest.config.dimensions, manifest.config)
+  return manifest
+}
@@ -1,23 +1,56 @@
+import { Bitset } from '../bitset.ts'
 import { HNSWIndex } from '../hnsw_index.ts'
-import type { DistanceMetric, HNSWConfig } from '../types.ts'
+import { hasMetric, isBuiltinMetric } from '../metrics.ts'
+import { binaryWords } from '../quantization.ts'
+import type { DistanceMetric, HNSWConfig, Metadata, Quantization } from '../types.ts'
 import { defaultHNSWConfig } from '../types.ts'
 
 const MAGIC = 0x574E5348 // "HNSW" in little-endian
-const VERSION = 1
+const VERSION = 10
 const HEADER_SIZE = 64
 
-const METRIC_MAP: Record<DistanceMetric, number> = {
+const METRIC_MAP: Record<string, number> = {
   euclidean: 0,
   cosine: 1,
   inner_product: 2,
+  manhattan: 3,
+  chebyshev: 4,
+  hamming: 5,
+  jaccard: 6,
 }
 
+// Metric byte for registered metrics: the name follows the header as a
+// length-prefixed UTF-8 block, padded to 8 bytes (v8+)
+const NAMED_METRIC = 0xFF
+
 const METRIC_REVERSE: DistanceMetric[] = [
   'euclidean',
   'cosine',
   'inner_product',
+  'manhattan',
+  'chebyshev',
+  'hamming',
+  'jaccard',
 ]
 
+const QUANTIZATION_MAP: Record<Quantization, number> = {
+  none: 0,
+  int8: 1,
+  pq: 2,
+  binary: 3,
+}
+
+const QUANTIZATION_REVERSE: Quantization[] = ['none', 'int8', 'pq', 'binary']
+
+// Header byte holding the quantization mode (v4+)
+const QUANTIZATION_OFFSET = 46
+// Header u16s holding the PQ subspaces and trained centroids per subspace, 0 before training (v5+)
+const PQ_SUBSPACES_OFFSET = 48
+const PQ_CENTROIDS_OFFSET = 50
+// Header byte set for MIPS indexes, and the f32 maximum norm their augmentation uses (v10+)
+const MIPS_OFFSET = 52
+const MAX_NORM_OFFSET = 56
+
 /** Encode an HNSWIndex into a binary Uint8Array. */
 export function encodeShard(index: HNSWIndex): Uint8Array {
   const state = index.getInternalState()
@@ -26,12 +59,40 @@ export function encodeShard(index: HNSWIndex): Uint8Array {
   const dim = config.dimensions
 
   // Calculate sizes
+  const metricName = isBuiltinMetric(config.metric) ? new Uint8Array(0) : new TextEncoder().encode(config.metric)
+  const metricNameSize = metricName.byteLength > 0 ? alignTo8(4 + metricName.byteLength) : 0
   const idBytes = encodeIdTable(state.internalToExternal, count)
   const idTableSize = alignTo8(idBytes.byteLength)
 
-  const vectorsSize = count * dim * 4
-  const hasCosineNorms = config.metric === 'cosine'
-  const normsSize = hasCosineNorms ? count * 4 : 0
+  // Metadata table (v3+): same layout as the ID table, JSON per node, '' for none
+  let hasMetadata = false
+  for (let i = 0; i < count; i++) {
+    if (state.metadata[i] !== undefined) {
+      hasMetadata = true
+      break
+    }
+  }
+  const metadataBytes = hasMetadata ? encodeMetadataTable(state.metadata, count) : new Uint8Array(0)
+  const metadataTableSize = alignTo8(metadataBytes.byteLength)
+
+  // Float vectors are omitted when only quantized codes are kept (v4+). Trained
+  // PQ shards always omit them: reranking reads them from a separate key.
+  const int8 = config.quantization === 'int8'
+  const pqCentroids = state.pqCodebook.length / dim
+  const omitsVectors = (int8 && !config.rerank) || pqCentroids > 0
+  // Float16 vectors are stored as half-precision bits (v7+)
+  const float16 = config.vectorType === 'float16'
+  const vectorsSize = omitsVectors ? 0 : float16 ? alignTo8(count * dim * 2) : count * dim * 4
+  // Norms are cached for cosine and MIPS
+  const hasNorms = config.metric === 'cosine' || config.mips
+  const normsSize = hasNorms ? count * 4 : 0
+  // int8 codes (aligned to 8) followed by one f32 scale per node
+  const codesSize = int8 ? alignTo8(count * dim) + count * 4 : 0
+  // PQ codebook followed by one code per subspace per node, each aligned to 8
+  const pqSize = pqCentroids > 0 ? alignTo8(state.pqCodebook.byteLength) + alignTo8(count * config.pqSubspaces) : 0
+  // Binary sign bits, packed into u32 words (v6+)
+  const words = config.quantization === 'binary' ? binaryWords(dim) : 0
+  const bitsSize = alignTo8(count * words * 4)
   const levelsSize = alignTo8(count)
 
   // Adjacency: for each layer, store header + neighbor counts + flat neighbors
@@ -47,8 +108,11 @@ export function encodeShard(index: HNSWIndex): Uint8Array {
     adjacencySize += count * maxN * 4
   }
 
-  const totalSize = HEADER_SIZE + idTableSize + vectorsSize + normsSize +
-    levelsSize + 4 + adjacencySize // +4 for numLayers
+  // Tombstones: one bit per node (v2+)
+  const deletedSize = alignTo8(Math.ceil(count / 8))
+
+  const totalSize = HEADER_SIZE + metricNameSize + idTableSize + metadataTableSize + vectorsSize +
+    normsSize + codesSize + pqSize + bitsSize + levelsSize + 4 + adjacencySize + deletedSize // +4 for numLayers
 
   const buffer = new ArrayBuffer(totalSize)
   const view = new DataView(buffer)
@@ -72,36 +136,60 @@ export function encodeShard(index: HNSWIndex): Uint8Array {
   offset += 4
   view.setUint32(offset, config.Mmax0, true)
   offset += 4
-  view.setUint8(offset, METRIC_MAP[config.metric])
+  view.setUint8(offset, metricNameSize > 0 ? NAMED_METRIC : METRIC_MAP[config.metric])
   offset += 1
   view.setUint8(
     offset,
-    (hasCosineNorms ? 1 : 0) | (config.useHeuristic ? 2 : 0) |
-      (config.keepPrunedConnections ? 4 : 0),
+    (hasNorms ? 1 : 0) | (config.useHeuristic ? 2 : 0) |
+      (config.keepPrunedConnections ? 4 : 0) | (config.eagerDelete ? 8 : 0) |
+      (hasMetadata ? 16 : 0) | (omitsVectors ? 32 : 0) | (config.rerank ? 64 : 0) | (float16 ? 128 : 0),
   )
   offset += 1
   view.setUint32(offset, config.efConstruction, true)
   offset += 4
   view.setUint32(offset, config.efSearch, true)
   offset += 4
+  view.setUint32(offset, state.deletedCount, true)
+  offset += 4
+  view.setUint8(offset, QUANTIZATION_MAP[config.quantization])
+  view.setUint16(PQ_SUBSPACES_OFFSET, config.quantization === 'pq' ? config.pqSubspaces : 0, true)
+  view.setUint16(PQ_CENTROIDS_OFFSET, pqCentroids, true)
+  view.setUint8(MIPS_OFFSET, config.mips ? 1 : 0)
+  view.setFloat32(MAX_NORM_OFFSET, state.maxNorm, true)
   // Reserved — pad to 64 bytes
   offset = HEADER_SIZE
 
+  // METRIC NAME (registered metrics only)
+  if (metricNameSize > 0) {
+    view.setUint32(offset, metricName.byteLength, true)
+    bytes.set(metricName, offset + 4)
+    offset += metricNameSize
+  }
+
   // ID TABLE
   bytes.set(idBytes, offset)
   offset += idTableSize
 
+  // METADATA (only when at least one node has a payload)
+  bytes.set(metadataBytes, offset)
+  offset += metadataTableSize
+
   // VECTORS
-  const vectorData = new Uint8Array(
-    state.vectors.buffer,
-    state.vectors.byteOffset,
-    count * dim * 4,
-  )
-  bytes.set(vectorData, offset)
-  offset += vectorsSize
+  if (float16) {
+    bytes.set(new Uint8Array(state.halves.buffer, state.halves.byteOffset, count * dim * 2), offset)
+    offset += vectorsSize
+  } else if (!omitsVectors) {
+    const vectorData = new Uint8Array(
+      state.vectors.buffer,
+      state.vectors.byteOffset,
+      count * dim * 4,
+    )
+    bytes.set(vectorData, offset)
+    offset += vectorsSize
+  }
 
-  // NORMS (cosine only)
-  if (hasCosineNorms) {
+  // NORMS (cosine and MIPS only)
+  if (hasNorms) {
     const normData = new Uint8Array(
       state.norms.buffer,
       state.norms.byteOffset,
@@ -111,6 +199,29 @@ export function encodeShard(index: HNSWIndex): Uint8Array {
     offset += normsSize
   }
 
+  // QUANTIZED CODES
+  if (int8) {
+    bytes.set(new Uint8Array(state.codes.buffer, state.codes.byteOffset, count * dim), offset)
+    offset += alignTo8(count * dim)
+    bytes.set(new Uint8Array(state.scales.buffer, state.scales.byteOffset, count * 4), offset)
+    offset += count * 4
+  }
+
+  // PQ CODEBOOK AND CODES (trained PQ only)
+  if (pqCentroids > 0) {
+    const codebook = state.pqCodebook
+    bytes.set(new Uint8Array(codebook.buffer, codebook.byteOffset, codebook.byteLength), offset)
+    offset += alignTo8(codebook.byteLength)
+    bytes.set(state.pqCodes.subarray(0, count * config.pqSubspaces), offset)
+    offset += alignTo8(count * config.pqSubspaces)
+  }
+
+  // BINARY CODES
+  if (words > 0) {
+    bytes.set(new Uint8Array(state.bits.buffer, state.bits.byteOffset, count * words * 4), offset)
+    offset += bitsSize
+  }
+
   // LEVELS
   bytes.set(state.levels.subarray(0, count), offset)
   offset += levelsSize
@@ -143,11 +254,20 @@ export function encodeShard(index: HNSWIndex): Uint8Array {
     offset += count * maxN * 4
   }
 
+  // DELETED
+  for (let i = 0; i < count; i++) {
+    if (state.deleted.has(i)) bytes[offset + (i >> 3)] |= 1 << (i & 7)
+  }
+  offset += deletedSize
+
   return bytes
 }
 
-/** Decode a binary Uint8Array back into an HNSWIndex. */
-export function decodeShard(data: Uint8Array): HNSWIndex {
+/**
+ * Decode a binary Uint8Array back into an HNSWIndex. `runtime` settings
+ * (see RUNTIME_FIELDS) take precedence over the ones stored in the header.
+ */
+export function decodeShard(data: Uint8Array, runtime?: Partial<HNSWConfig>): HNSWIndex {
   const view = new DataView(
     data.buffer,
     data.byteOffset,
@@ -162,7 +282,7 @@ export function decodeShard(data: Uint8Array): HNSWIndex {
 
   const version = view.getUint32(offset, true)
   offset += 4
-  if (version !== VERSION) {
+  if (version < 1 || version > VERSION) {
     throw new Error(`Unsupported HNSW version: ${version}`)
   }
 
@@ -182,17 +302,33 @@ export function decodeShard(data: Uint8Array): HNSWIndex {
   offset += 1
   const flags = view.getUint8(offset)
   offset += 1
-  const hasCosineNorms = (flags & 1) !== 0
+  const hasNorms = (flags & 1) !== 0
   const useHeuristic = (flags & 2) !== 0
   const keepPrunedConnections = (flags & 4) !== 0
+  const eagerDelete = (flags & 8) !== 0
+  const hasMetadata = (flags & 16) !== 0
+  const omitsVectors = (flags & 32) !== 0
+  const float16 = (flags & 128) !== 0
   const efConstruction = view.getUint32(offset, true)
   offset += 4
   const efSearch = view.getUint32(offset, true)
   offset += 4
-
-  offset = HEADER_SIZE
-
-  const metric = METRIC_REVERSE[metricByte]
+  // Version 1 files predate persisted tombstones
+  const deletedCount = version >= 2 ? view.getUint32(offset, true) : 0
+  offset += 4
+  const quantization = version >= 4 ? QUANTIZATION_REVERSE[view.getUint8(offset)] : 'none'
+  const pqSubspaces = version >= 5 ? view.getUint16(PQ_SUBSPACES_OFFSET, true) : 0
+  const pqCentroids = version >= 5 ? view.getUint16(PQ_CENTROIDS_OFFSET, true) : 0
+  // Before v5 the rerank flag was implied by int8 shards keeping their vectors
+  const rerank = version >= 5 ? (flags & 64) !== 0 : quantization !== 'none' && !omitsVectors
+  const mips = version >= 10 && view.getUint8(MIPS_OFFSET) !== 0
+  const maxNorm = version >= 10 ? view.getFloat32(MAX_NORM_OFFSET, true) : 0
+
+  const { metric, offset: sectionsStart } = readMetric(data, metricByte)
+  offset = sectionsStart
+  if (!hasMetric(metric)) {
+    throw new Error(`Shard uses metric "${metric}", which is not registered; call registerMetric() before decoding it`)
+  }
   const config: HNSWConfig = defaultHNSWConfig(dim, {
     M,
     Mmax0,
@@ -201,32 +337,53 @@ export function decodeShard(data: Uint8Array): HNSWIndex {
     metric,
     useHeuristic,
     keepPrunedConnections,
+    eagerDelete,
+    quantization,
+    rerank,
+    vectorType: float16 ? 'float16' : 'float32',
+    mips,
+    ...(pqSubspaces > 0 ? { pqSubspaces } : {}),
+    ...runtime,
   })
 
   // ID TABLE
   const { ids, bytesRead } = decodeIdTable(data, offset, count)
   offset += alignTo8(bytesRead)
 
+  // METADATA
+  let metadata: (Metadata | undefined)[] = new Array(count)
+  if (hasMetadata) {
+    const table = decodeIdTable(data, offset, count)
+    metadata = table.ids.map((json) => json === '' ? undefined : JSON.parse(json) as Metadata)
+    offset += alignTo8(table.bytesRead)
+  }
+
   // VECTORS
   const capacity = count // Tight allocation for deserialized data
-  const vectors = new Float32Array(capacity * dim)
-  const vectorBytes = new Uint8Array(
-    data.buffer,
-    data.byteOffset + offset,
-    count * dim * 4,
-  )
-  new Float32Array(vectors.buffer).set(
-    new Float32Array(
-      vectorBytes.buffer,
-      vectorBytes.byteOffset,
-      count * dim,
-    ),
-  )
-  offset += count * dim * 4
+  const vectors = new Float32Array(omitsVectors || float16 ? 0 : capacity * dim)
+  const halves = new Uint16Array(float16 ? capacity * dim : 0)
+  if (float16) {
+    new Uint8Array(halves.buffer).set(data.subarray(offset, offset + count * dim * 2))
+    offset += alignTo8(count * dim * 2)
+  } else if (!omitsVectors) {
+    const vectorBytes = new Uint8Array(
+      data.buffer,
+      data.byteOffset + offset,
+      count * dim * 4,
+    )
+    new Float32Array(vectors.buffer).set(
+      new Float32Array(
+        vectorBytes.buffer,
+        vectorBytes.byteOffset,
+        count * dim,
+      ),
+    )
+    offset += count * dim * 4
+  }
 
   // NORMS
   const norms = new Float32Array(capacity)
-  if (hasCosineNorms) {
+  if (hasNorms) {
     const normBytes = new Uint8Array(
       data.buffer,
       data.byteOffset + offset,
@@ -238,6 +395,35 @@ export function decodeShard(data: Uint8Array): HNSWIndex {
     offset += count * 4
   }
 
+  // QUANTIZED CODES
+  const int8 = quantization === 'int8'
+  const codes = new Int8Array(int8 ? capacity * dim : 0)
+  const scales = new Float32Array(int8 ? capacity : 0)
+  if (int8) {
+    codes.set(new Int8Array(data.buffer, data.byteOffset + offset, count * dim))
+    offset += alignTo8(count * dim)
+    new Uint8Array(scales.buffer).set(data.subarray(offset, offset + count * 4))
+    offset += count * 4
+  }
+
+  // PQ CODEBOOK AND CODES
+  const pqCodebook = new Float32Array(pqCentroids * dim)
+  const pqCodes = new Uint8Array(pqCentroids > 0 ? capacity * pqSubspaces : 0)
+  if (pqCentroids > 0) {
+    new Uint8Array(pqCodebook.buffer).set(data.subarray(offset, offset + pqCodebook.byteLength))
+    offset += alignTo8(pqCodebook.byteLength)
+    pqCodes.set(data.subarray(offset, offset + count * pqSubspaces))
+    offset += alignTo8(count * pqSubspaces)
+  }
+
+  // BINARY CODES
+  const words = quantization === 'binary' ? binaryWords(dim) : 0
+  const bits = new Uint32Array(capacity * words)
+  if (words > 0) {
+    new Uint8Array(bits.buffer).set(data.subarray(offset, offset + count * words * 4))
+    offset += alignTo8(count * words * 4)
+  }
+
   // LEVELS
   const levels = new Uint8Array(capacity)
   levels.set(data.subarray(offset, offset + count))
@@ -283,35 +469,159 @@ export function decodeShard(data: Uint8Array): HNSWIndex {
     neighborCounts.push(nc)
   }
 
+  // DELETED
+  const deleted = new Bitset(capacity)
+  if (version >= 2) {
+    for (let i = 0; i < count; i++) {
+      if ((data[offset + (i >> 3)] & (1 << (i & 7))) !== 0) deleted.set(i)
+    }
+    offset += alignTo8(Math.ceil(count / 8))
+  }
+
   return HNSWIndex.fromInternalState(config, {
     vectors,
+    halves,
     norms,
+    codes,
+    scales,
+    pqCodebook,
+    pqCodes,
+    bits,
     levels,
     adjacency,
     neighborCounts,
     internalToExternal: ids,
+    metadata,
+    deleted,
+    deletedCount,
     count,
     capacity,
     entryPointId,
     maxLevel,
+    maxNorm,
   })
 }
 
 /** Read only the header from serialized data (useful for metadata without full deserialization). */
 export function readHeader(
   data: Uint8Array,
-): { dimensions: number; count: number; metric: DistanceMetric; M: number } {
+): { dimensions: number; count: number; deletedCount: number; metric: DistanceMetric; M: number } {
   const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const version = view.getUint32(4, true)
   return {
     dimensions: view.getUint32(8, true),
     count: view.getUint32(12, true),
-    metric: METRIC_REVERSE[view.getUint8(32)],
+    deletedCount: version >= 2 ? view.getUint32(42, true) : 0,
+    metric: readMetric(data, view.getUint8(32)).metric,
     M: view.getUint32(24, true),
   }
 }
 
+/** Read the HNSW config recorded in a shard header. */
+export function readConfig(data: Uint8Array): HNSWConfig {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  if (view.getUint32(0, true) !== MAGIC) {
+    throw new Error('Invalid HNSW file: bad magic number')
+  }
+  const flags = view.getUint8(33)
+  const version = view.getUint32(4, true)
+  const quantization = version >= 4 ? QUANTIZATION_REVERSE[view.getUint8(QUANTIZATION_OFFSET)] : 'none'
+  const pqSubspaces = version >= 5 ? view.getUint16(PQ_SUBSPACES_OFFSET, true) : 0
+  return defaultHNSWConfig(view.getUint32(8, true), {
+    M: view.getUint32(24, true),
+    Mmax0: view.getUint32(28, true),
+    efConstruction: view.getUint32(34, true),
+    efSearch: view.getUint32(38, true),
+    metric: readMetric(data, view.getUint8(32)).metric,
+    useHeuristic: (flags & 2) !== 0,
+    keepPrunedConnections: (flags & 4) !== 0,
+    eagerDelete: (flags & 8) !== 0,
+    quantization,
+    rerank: version >= 5 ? (flags & 64) !== 0 : quantization !== 'none' && (flags & 32) === 0,
+    vectorType: (flags & 128) !== 0 ? 'float16' : 'float32',
+    mips: version >= 10 && view.getUint8(MIPS_OFFSET) !== 0,
+    ...(pqSubspaces > 0 ? { pqSubspaces } : {}),
+  })
+}
+
+/** Read the live (non-deleted) external IDs without decoding vectors or adjacency. */
+export function readLiveIds(data: Uint8Array): string[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const version = view.getUint32(4, true)
+  const dim = view.getUint32(8, true)
+  const count = view.getUint32(12, true)
+  const flags = view.getUint8(33)
+  const hasNorms = (flags & 1) !== 0
+  const hasMetadata = (flags & 16) !== 0
+  const omitsVectors = (flags & 32) !== 0
+  const quantization = version >= 4 ? view.getUint8(QUANTIZATION_OFFSET) : QUANTIZATION_MAP.none
+  const int8 = quantization === QUANTIZATION_MAP.int8
+  const words = quantization === QUANTIZATION_MAP.binary ? binaryWords(dim) : 0
+  const pqSubspaces = version >= 5 ? view.getUint16(PQ_SUBSPACES_OFFSET, true) : 0
+  const pqCentroids = version >= 5 ? view.getUint16(PQ_CENTROIDS_OFFSET, true) : 0
+
+  const start = readMetric(data, view.getUint8(32)).offset
+  const { ids, bytesRead } = decodeIdTable(data, start, count)
+  if (version < 2) return ids
+
+  // Skip past metadata, vectors, norms, codes, levels and adjacency to the tombstone section
+  let offset = start + alignTo8(bytesRead)
+  if (hasMetadata) {
+    const start = offset
+    for (let i = 0; i < count; i++) offset += 4 + view.getUint32(offset, true)
+    offset = start + alignTo8(offset - start)
+  }
+  if ((flags & 128) !== 0) offset += alignTo8(count * dim * 2)
+  else if (!omitsVectors) offset += count * dim * 4
+  if (hasNorms) offset += count * 4
+  if (int8) offset += alignTo8(count * dim) + count * 4
+  if (pqCentroids > 0) offset += alignTo8(pqCentroids * dim * 4) + alignTo8(count * pqSubspaces)
+  offset += alignTo8(count * words * 4)
+  offset += alignTo8(count)
+
+  const numLayers = view.getUint32(offset, true)
+  offset += 4
+  for (let l = 0; l < numLayers; l++) {
+    const nodeCount = view.getUint32(offset + 4, true)
+    const maxN = view.getUint32(offset + 8, true)
+    offset += 12 + alignTo4(nodeCount) + nodeCount * maxN * 4
+  }
+
+  return ids.filter((_, i) => (data[offset + (i >> 3)] & (1 << (i & 7))) === 0)
+}
+
+/**
+ * Encode float32 vector rows (one per internal slot). PQ stores with `rerank`
+ * keep these under a separate key, as trained PQ shards hold only codes.
+ */
+export function encodeVectors(vectors: Float32Array, count: number, dim: number): Uint8Array {
+  const bytes = new Uint8Array(8 + count * dim * 4)
+  const view = new DataView(bytes.buffer)
+  view.setUint32(0, count, true)
+  view.setUint32(4, dim, true)
+  bytes.set(new Uint8Array(vectors.buffer, vectors.byteOffset, count * dim * 4), 8)
+  return bytes
+}
+
+/** Decode vector rows written by encodeVectors. */
+export function decodeVectors(data: Uint8Array): Float32Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const length = view.getUint32(0, true) * view.getUint32(4, true)
+  const vectors = new Float32Array(length)
+  new Uint8Array(vectors.buffer).set(data.subarray(8, 8 + length * 4))
+  return vectors
+}
+
 // --- Helpers ---
 
+/** Resolve the header's metric byte to a name, and find where the sections after the header start. */
+function readMetric(data: Uint8Array, metricByte: number): { metric: DistanceMetric; offset: number } {
+  if (metricByte !== NAMED_METRIC) return { metric: METRIC_REVERSE[metricByte], offset: HEADER_SIZE }
+  const length = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(HEADER_SIZE, true)
+  const metric = new TextDecoder().decode(data.subarray(HEADER_SIZE + 4, HEADER_SIZE + 4 + length))
+  return { metric, offset: HEADER_SIZE + alignTo8(4 + length) }
+}
+
 function encodeIdTable(ids: string[], count: number): Uint8Array {
   const encoder = new TextEncoder()
   const parts: Uint8Array[] = []
@@ -338,6 +648,14 @@ function encodeIdTable(ids: string[], count: number): Uint8Array {
   return result
 }
 
+function encodeMetadataTable(metadata: (Metadata | undefined)[], count: number): Uint8Array {
+  const json: string[] = new Array(count)
+  for (let i = 0; i < count; i++) {
+    json[i] = metadata[i] === undefined ? '' : JSON.stringify(metadata[i])
+  }
+  return encodeIdTable(json, count)
+}
+
 function decodeIdTable(
   data: Uint8Array,
   startOffset: number,
@@ -0,0 +1,114 @@
+import type { ExternalId, Metadata, Vector } from '../types.ts'
+
+const OP_INSERT = 1
+const OP_DELETE = 2
+const OP_UPSERT = 3
+// Set on the op byte when a metadata payload follows the ID
+const OP_HAS_METADATA = 0x80
+
+/** A single logged mutation. */
+export type WalRecord =
+  | { op: 'insert' | 'upsert'; id: ExternalId; vector: Vector; metadata?: Metadata }
+  | { op: 'delete'; id: ExternalId }
+
+const OP_CODES: Record<WalRecord['op'], number> = {
+  insert: OP_INSERT,
+  delete: OP_DELETE,
+  upsert: OP_UPSERT,
+}
+
+/**
+ * Encode one WAL record.
+ * Layout: [u32 payload length][u8 op][u32 id length][id bytes]
+ *         [u32 metadata length][metadata JSON] (only with OP_HAS_METADATA)
+ *         [f32 vector (insert/upsert only)]
+ */
+export function encodeWalRecord(record: WalRecord): Uint8Array {
+  const encoder = new TextEncoder()
+  const idBytes = encoder.encode(record.id)
+  const metadataBytes = record.op !== 'delete' && record.metadata !== undefined ? encoder.encode(JSON.stringify(record.metadata)) : null
+  const metadataSize = metadataBytes ? 4 + metadataBytes.byteLength : 0
+  const vectorSize = record.op === 'delete' ? 0 : record.vector.length * 4
+  const payloadSize = 1 + 4 + idBytes.byteLength + metadataSize + vectorSize
+
+  const bytes = new Uint8Array(4 + payloadSize)
+  const view = new DataView(bytes.buffer)
+  let offset = 0
+
+  view.setUint32(offset, payloadSize, true)
+  offset += 4
+  view.setUint8(offset, OP_CODES[record.op] | (metadataBytes ? OP_HAS_METADATA : 0))
+  offset += 1
+  view.setUint32(offset, idBytes.byteLength, true)
+  offset += 4
+  bytes.set(idBytes, offset)
+  offset += idBytes.byteLength
+
+  if (metadataBytes) {
+    view.setUint32(offset, metadataBytes.byteLength, true)
+    offset += 4
+    bytes.set(metadataBytes, offset)
+    offset += metadataBytes.byteLength
+  }
+
+  if (record.op !== 'delete') {
+    const v = record.vector
+    bytes.set(new Uint8Array(v.buffer, v.byteOffset, vectorSize), offset)
+  }
+
+  return bytes
+}
+
+/**
+ * Decode every complete record in a WAL.
+ * A truncated trailing record (torn write during a crash) is ignored.
+ */
+export function decodeWal(data: Uint8Array): WalRecord[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const decoder = new TextDecoder()
+  const records: WalRecord[] = []
+  let offset = 0
+
+  while (offset + 4 <= data.byteLength) {
+    const payloadSize = view.getUint32(offset, true)
+    const end = offset + 4 + payloadSize
+    if (payloadSize < 5 || end > data.byteLength) break
+    offset += 4
+
+    const opByte = view.getUint8(offset)
+    const op = opByte & ~OP_HAS_METADATA
+    offset += 1
+    const idLen = view.getUint32(offset, true)
+    offset += 4
+    if (offset + idLen > end) break
+    const id = decoder.decode(data.subarray(offset, offset + idLen))
+    offset += idLen
+
+    if (op === OP_INSERT || op === OP_UPSERT) {
+      let metadata: Metadata | undefined
+      if ((opByte & OP_HAS_METADATA) !== 0) {
+        const metadataLen = view.getUint32(offset, true)
+        offset += 4
+        metadata = JSON.parse(decoder.decode(data.subarray(offset, offset + metadataLen)))
+        offset += metadataLen
+      }
+
+      // Copy out: the vector bytes are not guaranteed to be 4-byte aligned
+      const vectorBytes = data.slice(offset, end)
+      records.push({
+        op: op === OP_INSERT ? 'insert' : 'upsert',
+        id,
+        vector: new Float32Array(vectorBytes.buffer, 0, vectorBytes.byteLength >> 2),
+        metadata,
+      })
+    } else if (op === OP_DELETE) {
+      records.push({ op: 'delete', id })
+    } else {
+      throw new Error(`Invalid WAL record: unknown op ${op}`)
+    }
+
+    offset = end
+  }
+
+  return records
+}
@@ -1,18 +1,78 @@
 /** A vector represented as a Float32Array for performance. */
 export type Vector = Float32Array
 
+/**
+ * A vector as accepted on input: a Float32Array, a plain array, or any other
+ * numeric array such as Float16Array where the runtime provides it.
+ */
+export type VectorInput = Vector | number[] | ArrayLike<number>
+
 /** Internal node ID — uint32 range, used as array index. */
 export type InternalId = number
 
 /** External ID — user-facing string identifier. */
 export type ExternalId = string
 
-/** Supported distance metrics. */
-export type DistanceMetric = 'euclidean' | 'cosine' | 'inner_product'
+/**
+ * Name of a distance metric: a built-in one ('euclidean', 'cosine', 'inner_product',
+ * 'manhattan', 'chebyshev', 'hamming', 'jaccard') or one added with registerMetric().
+ */
+export type DistanceMetric = string
+
+/** Precision of the full vectors an index stores. */
+export type VectorType = 'float32' | 'float16'
+
+/** How vectors are stored in the index. */
+export type Quantization = 'none' | 'int8' | 'pq' | 'binary'
+
+/** How the distances of a multi-vector document's vectors combine into one. */
+export type Aggregation = 'max' | 'sum_of_max'
 
 /** A function that computes distance between two vectors. Lower = more similar. */
 export type DistanceFunction = (a: Vector, b: Vector) => number
 
+/** A JSON-serializable value. */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue }
+
+/** JSON-serializable payload stored alongside a vector. */
+export type Metadata = { [key: string]: JsonValue }
+
+/** Operators for a single metadata field. All given operators must hold. */
+export interface FieldOperators {
+  $eq?: JsonValue
+  $ne?: JsonValue
+  $in?: JsonValue[]
+  $nin?: JsonValue[]
+  $gt?: number | string
+  $gte?: number | string
+  $lt?: number | string
+  $lte?: number | string
+  $exists?: boolean
+}
+
+/** Condition on a metadata field: a value (equality shorthand) or operators. */
+export type FieldCondition = JsonValue | FieldOperators
+
+/**
+ * Declarative filter over metadata, serializable as JSON.
+ * Field keys map to conditions (dots reach nested fields); all entries must hold.
+ */
+export interface MetadataFilter {
+  $and?: MetadataFilter[]
+  $or?: MetadataFilter[]
+  $not?: MetadataFilter
+  [field: string]: FieldCondition | MetadataFilter | MetadataFilter[] | undefined
+}
+
+/** Search filter: a callback on external IDs or a structured metadata filter. */
+export type SearchFilter = ((id: ExternalId) => boolean) | MetadataFilter
+
 /** Configuration for the HNSW index. */
 export interface HNSWConfig {
   /** Number of dimensions for each vector. */
@@ -33,6 +93,47 @@ export interface HNSWConfig {
   useHeuristic: boolean
   /** Keep pruned connections when using heuristic. Default true. */
   keepPrunedConnections: boolean
+  /**
+   * Unlink deleted nodes, reconnect their former neighbors and recycle the slot,
+   * instead of leaving a routing tombstone until compact(). A slot still
+   * linked from outside the node's neighborhood is not recycled before
+   * compact(). Default false.
+   */
+  eagerDelete: boolean
+  /**
+   * Vector storage. "int8" keeps one signed byte per dimension plus a per-vector
+   * scale (~4x smaller) and computes distances on the codes. "pq" (product
+   * quantization) stores one byte per subspace (~32x smaller at 8 components
+   * per subspace) once `pqTrainingSize` vectors have trained its codebooks.
+   * "binary" navigates the graph by Hamming distance between sign bits (one bit
+   * per dimension) and always reranks the `ef` candidates with the float32
+   * vectors it keeps. Default "none".
+   */
+  quantization: Quantization
+  /**
+   * With quantization, also keep the float32 vectors and re-score the final
+   * candidates with them, returning exact distances. Default false.
+   */
+  rerank: boolean
+  /**
+   * Precision of stored vectors. "float16" halves vector memory and shard size;
+   * distances decode the half-precision values. Requires quantization "none".
+   * Default "float32".
+   */
+  vectorType: VectorType
+  /** PQ subspaces; must divide `dimensions`. Default: the fewest giving at most 8 components each. */
+  pqSubspaces: number
+  /** Vectors a PQ index buffers as float32 before training its codebooks. Default 1024. */
+  pqTrainingSize: number
+  /**
+   * Maximum inner product search for vectors of varying norm. The graph is
+   * built with L2 over vectors augmented by one dimension, sqrt(maxNorm² - |x|²),
+   * which turns nearest-dot-product into nearest-neighbor search; queries get a
+   * zero there. Stored vectors and reported distances stay those of
+   * inner_product. Requires metric "inner_product", float32 vectors and no
+   * quantization. Default false.
+   */
+  mips: boolean
   /** PRNG seed for deterministic layer assignment. */
   seed?: number
 }
@@ -43,6 +144,17 @@ export interface ShardConfig {
   maxVectorsPerShard: number
   /** Max number of loaded shards in memory at once. */
   maxLoadedShards: number
+  /** Log inserts and deletes to a write-ahead log before applying them. Default false. */
+  writeAheadLog: boolean
+  /** Worker threads bulkInsert uses to build new shards in parallel. Default 0 (build on the calling thread). */
+  buildWorkers: number
+  /**
+   * Worker threads that own shards and answer searches in parallel. The
+   * workers hold their own copies of up to `maxLoadedShards` shards between
+   * them, on top of those loaded on the calling thread. Default 0 (search on
+   * the calling thread).
+   */
+  searchWorkers: number
 }
 
 /** Interface for persistent storage backends. */
@@ -52,24 +164,47 @@ export interface StorageBackend {
   delete(key: string): Promise<boolean>
   list(): Promise<string[]>
   exists(key: string): Promise<boolean>
+  /** Append to a key, creating it if missing. Falls back to read + write when absent. */
+  append?(key: string, data: Uint8Array): Promise<void>
 }
 
 /** A single search result. */
 export interface SearchResult {
   /** External ID of the matched vector. */
   id: ExternalId
-  /** Distance from the query. */
+  /** Distance from the query, or its score when `SearchOptions.score` is set. */
   distance: number
-  /** The vector data, if requested. */
+  /** The vector data, if requested. For a multi-vector document, its first vector. */
   vector?: Vector
+  /** All vectors of a multi-vector document, if requested. */
+  vectors?: Vector[]
+  /** The metadata payload, if requested and present. */
+  metadata?: Metadata
 }
 
-/** An item to insert. */
+/** An item to insert: a single vector, or a multi-vector document. Set exactly one of `vector` and `vectors`. */
 export interface InsertItem {
   /** External ID. */
   id: ExternalId
   /** The vector data. */
-  vector: Vector | number[]
+  vector?: VectorInput
+  /**
+   * The vectors of a multi-vector document (e.g. per-token embeddings from a
+   * late-interaction model), all indexed under this one ID.
+   */
+  vectors?: VectorInput[]
+  /** Optional payload persisted with the vector(s). */
+  metadata?: Metadata
+}
+
+/** A stored vector and its payload, as returned by get(). */
+export interface VectorRecord {
+  id: ExternalId
+  /** The vector; for a multi-vector document, its first vector. */
+  vector: Vector
+  /** All vectors of a multi-vector document. */
+  vectors?: Vector[]
+  metadata?: Metadata
 }
 
 /** Top-level configuration for VectorStore. */
@@ -85,10 +220,60 @@ export interface SearchOptions {
   efSearch?: number
   /** Include vector data in results. */
   includeVectors?: boolean
-  /** Filter function applied to external IDs. */
-  filter?: (id: ExternalId) => boolean
+  /** Include metadata payloads in results. */
+  includeMetadata?: boolean
+  /** Filter applied during search: an ID callback or a metadata filter. */
+  filter?: SearchFilter
+  /**
+   * Report scores instead of internal distances: true L2 distance for
+   * euclidean, cosine similarity in [-1, 1] for cosine and the dot product for
+   * inner_product. Other metrics report their distance as-is. Results stay
+   * nearest first, so similarities come out in descending order.
+   */
+  score?: boolean
+  /**
+   * How a multi-vector document's distance is aggregated from its vectors.
+   * "max" takes its best match to any query vector; "sum_of_max" sums, over
+   * the query vectors, each one's best match among the document's vectors
+   * (late interaction). With a single query vector they agree. Default
+   * "sum_of_max".
+   */
+  aggregate?: Aggregation
 }
 
+/** Progress of a store compaction, reported once per shard. */
+export interface CompactProgress {
+  /** Key of the shard just processed. */
+  shardKey: string
+  /** Shards processed so far, including this one. */
+  shardsDone: number
+  /** Total number of shards. */
+  shardsTotal: number
+  /** Deleted slots dropped from this shard (0 if it was skipped). */
+  removed: number
+}
+
+/** Options for compaction. */
+export interface CompactOptions {
+  /** Called after each shard is processed. */
+  onProgress?: (progress: CompactProgress) => void
+}
+
+/**
+ * Settings that only affect future queries and inserts, so they may differ
+ * from the persisted store. Shards loaded from storage take them from the store.
+ * `mL` and `pqTrainingSize` are not persisted at all: a reopened store uses the
+ * values it is opened with, or the defaults.
+ */
+export const RUNTIME_FIELDS: ReadonlySet<keyof HNSWConfig> = new Set([
+  'efSearch',
+  'efConstruction',
+  'seed',
+  'eagerDelete',
+  'mL',
+  'pqTrainingSize',
+])
+
 /** Sentinel value for empty adjacency slots. */
 export const SENTINEL = 0xFFFFFFFF
 
@@ -108,10 +293,25 @@ export function defaultHNSWConfig(
     mL: overrides?.mL ?? 1 / Math.log(M),
     useHeuristic: overrides?.useHeuristic ?? true,
     keepPrunedConnections: overrides?.keepPrunedConnections ?? true,
+    eagerDelete: overrides?.eagerDelete ?? false,
+    quantization: overrides?.quantization ?? 'none',
+    rerank: overrides?.rerank ?? false,
+    vectorType: overrides?.vectorType ?? 'float32',
+    pqSubspaces: overrides?.pqSubspaces ?? defaultPQSubspaces(dimensions),
+    pqTrainingSize: overrides?.pqTrainingSize ?? 1024,
+    mips: overrides?.mips ?? false,
     seed: overrides?.seed,
   }
 }
 
+/** Smallest divisor of `dimensions` that keeps PQ subspaces at 8 components or fewer. */
+function defaultPQSubspaces(dimensions: number): number {
+  for (let s = Math.max(1, Math.ceil(dimensions / 8)); s < dimensions; s++) {
+    if (dimensions % s === 0) return s
+  }
+  return Math.max(1, dimensions)
+}
+
 /** Default shard configuration values. */
 export function defaultShardConfig(
   overrides?: Partial<ShardConfig>,
@@ -119,5 +319,8 @@ export function defaultShardConfig(
   return {
     maxVectorsPerShard: overrides?.maxVectorsPerShard ?? 100_000,
     maxLoadedShards: overrides?.maxLoadedShards ?? 4,
+    writeAheadLog: overrides?.writeAheadLog ?? false,
+    buildWorkers: overrides?.buildWorkers ?? 0,
+    searchWorkers: overrides?.searchWorkers ?? 0,
   }
 }
@@ -1,12 +1,16 @@
 import { ShardManager } from './shard_manager.ts'
 import {
+  type CompactOptions,
   defaultHNSWConfig,
   defaultShardConfig,
   type ExternalId,
+  type HNSWConfig,
   type InsertItem,
+  RUNTIME_FIELDS,
   type SearchOptions,
   type SearchResult,
-  type Vector,
+  type VectorInput,
+  type VectorRecord,
   type VectorStoreConfig,
 } from './types.ts'
 
@@ -43,42 +47,122 @@ export class VectorStore {
     return new VectorStore(cfg, manager)
   }
 
-  /** Open an existing VectorStore from storage. */
+  /**
+   * Open an existing VectorStore from storage.
+   * The HNSW config is read from the persisted store; only runtime settings
+   * (efSearch, efConstruction, seed, eagerDelete) may be overridden in config.hnsw.
+   */
   static async open(config: VectorStoreConfig): Promise<VectorStore> {
     if (!config.storage) {
       throw new Error('storage backend is required to open an existing store')
     }
-    if (!config.hnsw?.dimensions) {
-      throw new Error('hnsw.dimensions is required')
+
+    const persisted = await ShardManager.readPersistedConfig(config.storage)
+    let hnswConfig: HNSWConfig
+    if (persisted) {
+      hnswConfig = mergeOpenConfig(persisted, config.hnsw)
+    } else {
+      // Nothing persisted yet: behave like create()
+      if (!config.hnsw?.dimensions) {
+        throw new Error('hnsw.dimensions is required')
+      }
+      hnswConfig = defaultHNSWConfig(config.hnsw.dimensions, config.hnsw)
     }
 
-    const hnswConfig = defaultHNSWConfig(config.hnsw.dimensions, config.hnsw)
     const shardConfig = defaultShardConfig(config.sharding)
     const manager = new ShardManager(hnswConfig, shardConfig, config.storage)
     await manager.loadFromStorage()
 
-    return new VectorStore(config, manager)
+    return new VectorStore({ ...config, hnsw: hnswConfig }, manager)
   }
 
-  /** Insert one or more items. */
+  /** Insert one or more items. Items with `vectors` are stored as multi-vector documents. */
   async insert(items: InsertItem | InsertItem[]): Promise<void> {
     const arr = Array.isArray(items) ? items : [items]
     for (const item of arr) {
-      const vec = item.vector instanceof Float32Array ? item.vector : new Float32Array(item.vector)
-      await this.manager.insert(item.id, vec)
+      const vectors = documentVectors(item)
+      if (vectors) {
+        await this.manager.insertDocument(item.id, vectors, item.metadata)
+      } else {
+        await this.manager.insert(item.id, item.vector!, item.metadata)
+      }
+    }
+  }
+
+  /** Insert one or more items, replacing every vector of IDs that already exist. */
+  async upsert(items: InsertItem | InsertItem[]): Promise<void> {
+    const arr = Array.isArray(items) ? items : [items]
+    for (const item of arr) {
+      const vectors = documentVectors(item)
+      if (vectors) {
+        await this.manager.upsertDocument(item.id, vectors, item.metadata)
+      } else {
+        await this.manager.upsert(item.id, item.vector!, item.metadata)
+      }
     }
   }
 
+  /**
+   * Import many items from an array, iterable or async iterable, building
+   * whole shards at a time. Much faster than `insert` for large loads; items
+   * are not written to the write-ahead log, and the store is flushed at the end.
+   * Returns the number of vectors inserted; like `size`, each vector of a
+   * multi-vector document counts.
+   */
+  async bulkInsert(items: Iterable<InsertItem> | AsyncIterable<InsertItem>): Promise<number> {
+    return this.manager.bulkInsert(items)
+  }
+
+  /** Get a stored vector and its metadata by ID, or null if it does not exist. */
+  async get(id: ExternalId): Promise<VectorRecord | null> {
+    return this.manager.get(id)
+  }
+
   /** Search for the k nearest neighbors. */
   async search(
-    query: Vector | number[],
+    query: VectorInput,
     k: number,
     options?: SearchOptions,
   ): Promise<SearchResult[]> {
     return this.manager.search(query, k, options)
   }
 
-  /** Delete a vector by ID. */
+  /** Search for the k nearest neighbors of each query, loading every shard once. Results are in query order. */
+  async searchBatch(
+    queries: VectorInput[],
+    k: number,
+    options?: SearchOptions,
+  ): Promise<SearchResult[][]> {
+    return this.manager.searchBatch(queries, k, options)
+  }
+
+  /**
+   * Search with several query vectors, such as the token embeddings of a
+   * late-interaction model. Multi-vector documents are ranked by
+   * `options.aggregate` (sum of each query vector's best match by default).
+   */
+  async searchMulti(
+    queries: VectorInput[],
+    k: number,
+    options?: SearchOptions,
+  ): Promise<SearchResult[]> {
+    return this.manager.searchMulti(queries, k, options)
+  }
+
+  /**
+   * Find every vector within `radius` of the query, nearest first.
+   * The radius uses the metric's distance units: squared L2, 1 - cos, or -dot,
+   * even when `options.score` converts the reported values.
+   */
+  async rangeSearch(
+    query: VectorInput,
+    radius: number,
+    options?: SearchOptions,
+  ): Promise<SearchResult[]> {
+    return this.manager.rangeSearch(query, radius, options)
+  }
+
+  /** Delete a vector by ID; for a multi-vector document, all of its vectors. */
   async delete(id: ExternalId): Promise<boolean> {
     return this.manager.delete(id)
   }
@@ -88,9 +172,9 @@ export class VectorStore {
     return this.manager.flush()
   }
 
-  /** Compact all shards (rebuild without deleted nodes). */
-  async compact(): Promise<void> {
-    return this.manager.compact()
+  /** Compact all shards, dropping deleted vectors while keeping the existing graph. */
+  async compact(options?: CompactOptions): Promise<void> {
+    return this.manager.compact(options)
   }
 
   /** Close the store: flush and release all resources. */
@@ -98,8 +182,38 @@ export class VectorStore {
     return this.manager.close()
   }
 
-  /** Total number of (non-deleted) vectors. */
+  /** Total number of (non-deleted) vectors; each vector of a multi-vector document counts. */
   get size(): number {
     return this.manager.size
   }
 }
+
+/** The vectors of a multi-vector document, or null for a single-vector item. */
+function documentVectors(item: InsertItem): VectorInput[] | null {
+  if ((item.vector === undefined) === (item.vectors === undefined)) {
+    throw new Error(`Item ${item.id} must have exactly one of vector and vectors`)
+  }
+  return item.vectors ?? null
+}
+
+/** Apply runtime overrides to a persisted config, rejecting changes to anything else. */
+function mergeOpenConfig(
+  persisted: HNSWConfig,
+  overrides: Partial<HNSWConfig> | undefined,
+): HNSWConfig {
+  const merged = { ...persisted }
+  if (!overrides) return merged
+
+  for (const field of Object.keys(overrides) as (keyof HNSWConfig)[]) {
+    const value = overrides[field]
+    if (value === undefined) continue
+    if (RUNTIME_FIELDS.has(field)) {
+      Object.assign(merged, { [field]: value })
+    } else if (value !== persisted[field]) {
+      throw new Error(
+        `Config mismatch: store was built with ${field}=${persisted[field]}, but ${field}=${value} was given`,
+      )
+    }
+  }
+  return merged
+}
@@ -0,0 +1,66 @@
+import type { HNSWConfig, Metadata } from '../types.ts'
+import { siblingModule, spawnWorker, WorkerChannel } from './runtime.ts'
+
+/** A shard to build: vectors are packed back to back, one row per ID. */
+export interface BuildRequest {
+  config: HNSWConfig
+  ids: string[]
+  vectors: Float32Array
+  metadata: (Metadata | undefined)[]
+}
+
+/** An encoded shard, or the error that stopped the build. */
+export type BuildResponse = { data: Uint8Array } | { error: string }
+
+/** Fixed-size pool of workers that build and encode shards off the calling thread. */
+export class BuildPool {
+  private workers: WorkerChannel[] = []
+  private idle: WorkerChannel[] = []
+  private waiting: { resolve: (worker: WorkerChannel) => void; reject: (error: Error) => void }[] = []
+
+  private constructor() {}
+
+  static async create(size: number): Promise<BuildPool> {
+    const pool = new BuildPool()
+    const url = siblingModule('build_worker', import.meta.url)
+    for (let i = 0; i < size; i++) {
+      const worker = new WorkerChannel(await spawnWorker(url))
+      pool.workers.push(worker)
+      pool.idle.push(worker)
+    }
+    return pool
+  }
+
+  /** Build a shard on the next free worker and return its encoded bytes. */
+  async build(request: BuildRequest): Promise<Uint8Array> {
+    const worker = await this.acquire()
+    try {
+      const response = await worker.request(request) as BuildResponse
+      if ('error' in response) throw new Error(response.error)
+      return response.data
+    } finally {
+      this.release(worker)
+    }
+  }
+
+  /** Terminate all workers. Builds still running or waiting for a worker are rejected. */
+  close(): void {
+    for (const worker of this.workers) worker.terminate()
+    const error = new Error('Build pool closed')
+    for (const waiter of this.waiting.splice(0)) waiter.reject(error)
+    this.workers = []
+    this.idle = []
+  }
+
+  private acquire(): Promise<WorkerChannel> {
+    const worker = this.idle.pop()
+    if (worker) return Promise.resolve(worker)
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }))
+  }
+
+  private release(worker: WorkerChannel): void {
+    const next = this.waiting.shift()
+    if (next) next.resolve(worker)
+    else this.idle.push(worker)
+  }
+}
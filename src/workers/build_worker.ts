@@ -0,0 +1,19 @@
+// Worker entry point for BuildPool: builds one shard per message.
+import { HNSWIndex } from '../hnsw_index.ts'
+import { encodeShard } from '../storage/serialization.ts'
+import type { BuildRequest, BuildResponse } from './build_pool.ts'
+import { serveParent } from './runtime.ts'
+
+serveParent((request: BuildRequest): BuildResponse => {
+  try {
+    const { config, ids, vectors, metadata } = request
+    const dim = config.dimensions
+    const index = new HNSWIndex(config, ids.length)
+    for (let i = 0; i < ids.length; i++) {
+      index.insert(ids[i], vectors.subarray(i * dim, (i + 1) * dim), metadata[i])
+    }
+    return { data: encodeShard(index) }
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) }
+  }
+})
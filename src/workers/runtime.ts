@@ -0,0 +1,89 @@
+// Minimal worker shim: Web Workers where the runtime has them (Deno, Bun),
+// node:worker_threads otherwise (Node.js).
+
+/** A spawned worker, independent of the runtime's worker API. */
+export interface WorkerHandle {
+  postMessage(message: unknown): void
+  onMessage(handler: (message: unknown) => void): void
+  onError(handler: (error: Error) => void): void
+  terminate(): void
+}
+
+/** Spawn a module worker from a URL. */
+export async function spawnWorker(url: URL): Promise<WorkerHandle> {
+  const WebWorker = (globalThis as any).Worker
+  if (typeof WebWorker === 'function') {
+    const worker = new WebWorker(url, { type: 'module' })
+    return {
+      postMessage: (message) => worker.postMessage(message),
+      onMessage: (handler) => {
+        worker.onmessage = (e: MessageEvent) => handler(e.data)
+      },
+      onError: (handler) => {
+        worker.onerror = (e: ErrorEvent) => {
+          e.preventDefault()
+          handler(new Error(e.message))
+        }
+      },
+      terminate: () => worker.terminate(),
+    }
+  }
+
+  // dnt-shim-ignore
+  const { Worker } = await import('node:worker_threads')
+  const worker = new Worker(url)
+  return {
+    postMessage: (message) => worker.postMessage(message),
+    onMessage: (handler) => worker.on('message', handler),
+    onError: (handler) => worker.on('error', handler),
+    terminate: () => void worker.terminate(),
+  }
+}
+
+/** Request/response messaging with a worker. Replies arrive in the order requests were posted. */
+export class WorkerChannel {
+  private worker: WorkerHandle
+  private pending: { resolve: (reply: unknown) => void; reject: (error: Error) => void }[] = []
+
+  constructor(worker: WorkerHandle) {
+    this.worker = worker
+    worker.onMessage((reply) => this.pending.shift()?.resolve(reply))
+    worker.onError((error) => {
+      for (const p of this.pending.splice(0)) p.reject(error)
+    })
+  }
+
+  request(message: unknown): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      // Posting throws for messages that cannot be cloned; nothing is pending then
+      this.worker.postMessage(message)
+      this.pending.push({ resolve, reject })
+    })
+  }
+
+  /** Terminate the worker, rejecting requests still waiting for a reply. */
+  terminate(): void {
+    this.worker.terminate()
+    const error = new Error('Worker terminated')
+    for (const p of this.pending.splice(0)) p.reject(error)
+  }
+}
+
+/** Inside a worker: answer each message from the parent with the handler's return value. */
+export async function serveParent(handler: (message: any) => unknown): Promise<void> {
+  const scope = globalThis as any
+  if (typeof scope.postMessage === 'function') {
+    scope.onmessage = (e: MessageEvent) => scope.postMessage(handler(e.data))
+    return
+  }
+
+  // dnt-shim-ignore
+  const { parentPort } = await import('node:worker_threads')
+  parentPort!.on('message', (message) => parentPort!.postMessage(handler(message)))
+}
+
+/** URL of a worker module next to `base`, keeping its extension (.ts from source, .js when built). */
+export function siblingModule(name: string, base: string): URL {
+  const ext = base.endsWith('.ts') ? '.ts' : '.js'
+  return new URL(`./${name}${ext}`, base)
+}
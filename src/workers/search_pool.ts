@@ -0,0 +1,118 @@
+import type { MetadataFilter, SearchResult } from '../types.ts'
+import { siblingModule, spawnWorker, WorkerChannel } from './runtime.ts'
+
+/** Messages understood by the search worker. */
+export type SearchRequest =
+  | { op: 'load'; key: string; data: Uint8Array }
+  | { op: 'drop'; key: string }
+  | { op: 'search'; key: string; query: Float32Array; k: number; efSearch?: number; filter?: MetadataFilter }
+
+export type SearchResponse = { results: SearchResult[] } | { loaded: true } | { dropped: true } | { error: string }
+
+/**
+ * Fixed-size pool of workers that each own a subset of the shards and answer
+ * searches against them. A worker is sent a shard's bytes the first time it is
+ * searched and again whenever the shard's version changes. At most `capacity`
+ * shards are held across the pool; the least recently searched are dropped.
+ */
+export class SearchPool {
+  private workers: WorkerChannel[] = []
+  private owners = new Map<string, WorkerChannel>()
+  // Version of each shard its owner holds, when that copy is ready and how
+  // many searches are using it; ordered from least to most recently searched
+  private held = new Map<string, { version: number; ready: Promise<void>; searches: number }>()
+  private capacity: number
+
+  private constructor(capacity: number) {
+    this.capacity = capacity
+  }
+
+  static async create(size: number, capacity: number): Promise<SearchPool> {
+    const pool = new SearchPool(capacity)
+    const url = siblingModule('search_worker', import.meta.url)
+    for (let i = 0; i < size; i++) {
+      pool.workers.push(new WorkerChannel(await spawnWorker(url)))
+    }
+    return pool
+  }
+
+  /**
+   * Search one shard on its owning worker. `load` supplies the encoded shard
+   * when the worker does not hold `version` yet.
+   */
+  async search(
+    key: string,
+    version: number,
+    load: () => Promise<Uint8Array>,
+    query: Float32Array,
+    k: number,
+    efSearch?: number,
+    filter?: MetadataFilter,
+  ): Promise<SearchResult[]> {
+    const entry = this.ensureLoaded(key, version, load)
+    entry.searches++
+    try {
+      await entry.ready
+      const response = await this.ownerOf(key).request({ op: 'search', key, query, k, efSearch, filter }) as SearchResponse
+      if ('error' in response) throw new Error(response.error)
+      return (response as { results: SearchResult[] }).results
+    } finally {
+      entry.searches--
+    }
+  }
+
+  /** Terminate all workers. */
+  close(): void {
+    for (const worker of this.workers) worker.terminate()
+    this.workers = []
+    this.owners.clear()
+    this.held.clear()
+  }
+
+  private ownerOf(key: string): WorkerChannel {
+    let owner = this.owners.get(key)
+    if (!owner) {
+      // Shards are dealt out round-robin in the order they are first searched
+      owner = this.workers[this.owners.size % this.workers.length]
+      this.owners.set(key, owner)
+    }
+    return owner
+  }
+
+  private ensureLoaded(key: string, version: number, load: () => Promise<Uint8Array>): { ready: Promise<void>; searches: number } {
+    const held = this.held.get(key)
+    this.held.delete(key)
+    if (held && held.version === version) {
+      this.held.set(key, held)
+      return held
+    }
+
+    const owner = this.ownerOf(key)
+    const entry = { version, ready: Promise.resolve(), searches: 0 }
+    entry.ready = load()
+      .then((data) => owner.request({ op: 'load', key, data }))
+      .then((response) => {
+        if ('error' in (response as SearchResponse)) throw new Error((response as { error: string }).error)
+      })
+      .catch((e) => {
+        if (this.held.get(key) === entry) this.held.delete(key)
+        throw e
+      })
+    this.held.set(key, entry)
+    this.evict(key)
+    return entry
+  }
+
+  /** Drop the least recently searched shards, other than `keep` and those in use, until the pool is within capacity. */
+  private evict(keep: string): void {
+    let excess = this.held.size - this.capacity
+    for (const [key, entry] of this.held) {
+      if (excess <= 0) break
+      if (key === keep || entry.searches > 0) continue
+      this.held.delete(key)
+      excess--
+      // Requests to a worker are answered in order, so a later load of this shard comes after the drop
+      this.ownerOf(key).request({ op: 'drop', key }).catch(() => {})
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// Worker entry point for SearchPool: holds decoded shards and searches them.
+import type { HNSWIndex } from '../hnsw_index.ts'
+import { decodeShard } from '../storage/serialization.ts'
+import type { SearchRequest, SearchResponse } from './search_pool.ts'
+import { serveParent } from './runtime.ts'
+
+const shards = new Map<string, HNSWIndex>()
+
+serveParent((request: SearchRequest): SearchResponse => {
+  try {
+    if (request.op === 'load') {
+      shards.set(request.key, decodeShard(request.data))
+      return { loaded: true }
+    }
+    if (request.op === 'drop') {
+      shards.delete(request.key)
+      return { dropped: true }
+    }
+
+    const index = shards.get(request.key)
+    if (!index) return { error: `Shard ${request.key} is not loaded in this worker` }
+    return { results: index.search(request.query, request.k, request.efSearch, request.filter) }
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : String(e) }
+  }
+})
@@ -1,6 +1,21 @@
 import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
 import { assertAlmostEquals } from 'https://deno.land/std@0.224.0/assert/assert_almost_equals.ts'
-import { computeNorm, cosine, euclidean, getDistanceFunction, innerProduct } from '../src/distances.ts'
+import {
+  chebyshev,
+  computeNorm,
+  cosine,
+  cosineFloat16,
+  cosineWithNorms,
+  euclidean,
+  euclideanFloat16,
+  getDistanceFunction,
+  hamming,
+  innerProduct,
+  innerProductFloat16,
+  jaccard,
+  manhattan,
+} from '../src/distances.ts'
+import { decodeFloat16, encodeFloat16 } from '../src/float16.ts'
 
 Deno.test('euclidean: zero distance for identical vectors', () => {
   const a = new Float32Array([1, 2, 3, 4])
@@ -72,6 +87,10 @@ Deno.test('getDistanceFunction: returns correct functions', () => {
   assertEquals(getDistanceFunction('euclidean'), euclidean)
   assertEquals(getDistanceFunction('cosine'), cosine)
   assertEquals(getDistanceFunction('inner_product'), innerProduct)
+  assertEquals(getDistanceFunction('manhattan'), manhattan)
+  assertEquals(getDistanceFunction('chebyshev'), chebyshev)
+  assertEquals(getDistanceFunction('hamming'), hamming)
+  assertEquals(getDistanceFunction('jaccard'), jaccard)
 })
 
 Deno.test('euclidean: large vector (128 dims)', () => {
@@ -80,3 +99,59 @@ Deno.test('euclidean: large vector (128 dims)', () => {
   // Each dim contributes 1, so sum = 128
   assertEquals(euclidean(a, b), 128)
 })
+
+Deno.test('float16 distances equal float distances to the decoded vector', () => {
+  const a = new Float32Array([0.3, -1.7, 2.25, 0.1, -0.6])
+  const halves = new Uint16Array(7)
+  encodeFloat16(new Float32Array([1.1, 0.2, -0.35, 4, 0.5]), halves, 2)
+  const b = decodeFloat16(halves, 2, 5)
+
+  assertAlmostEquals(euclideanFloat16(a, halves, 2), euclidean(a, b), 1e-6)
+  assertAlmostEquals(cosineFloat16(a, halves, 2), cosine(a, b), 1e-6)
+  assertAlmostEquals(innerProductFloat16(a, halves, 2), innerProduct(a, b), 1e-6)
+})
+
+Deno.test('cosineWithNorms: matches cosine given the norms', () => {
+  const a = new Float32Array([0.3, -1.7, 2.25, 0.1, -0.6])
+  const b = new Float32Array([1.1, 0.2, -0.35, 4, 0.5])
+  assertAlmostEquals(cosineWithNorms(a, b, computeNorm(a), computeNorm(b)), cosine(a, b), 1e-6)
+  assertEquals(cosineWithNorms(a, b, 0, computeNorm(b)), 1)
+})
+
+Deno.test('manhattan: sum of absolute differences', () => {
+  const a = new Float32Array([1, -2, 3, 0, 5])
+  const b = new Float32Array([4, 2, 3, -1, 4])
+  // 3 + 4 + 0 + 1 + 1
+  assertEquals(manhattan(a, b), 9)
+})
+
+Deno.test('chebyshev: largest absolute difference', () => {
+  const a = new Float32Array([1, -2, 3, 0, 5])
+  const b = new Float32Array([4, 2, 3, -1, 4])
+  assertEquals(chebyshev(a, b), 4)
+  assertEquals(chebyshev(a, a), 0)
+})
+
+/** A bit-packed vector whose float32 components carry these 32-bit words. */
+function packed(...words: number[]): Float32Array {
+  return new Float32Array(Uint32Array.from(words).buffer)
+}
+
+Deno.test('hamming: counts differing bits across packed words', () => {
+  const a = packed(0b1011, 0xFFFFFFFF)
+  const b = packed(0b0110, 0x0000FFFF)
+  assertEquals(hamming(a, b), 3 + 16)
+  assertEquals(hamming(a, a), 0)
+  // Words whose bit patterns are NaN as floats still count bit by bit
+  assertEquals(hamming(packed(0x7FC00001), packed(0x7FC00000)), 1)
+})
+
+Deno.test('jaccard: one minus intersection over union of packed bits', () => {
+  const a = packed(0b1101, 0)
+  const b = packed(0b0101, 0b10)
+  // |a ∩ b| = 2, |a ∪ b| = 4
+  assertAlmostEquals(jaccard(a, b), 1 - 2 / 4, 1e-9)
+  assertEquals(jaccard(a, a), 0)
+  assertEquals(jaccard(packed(0, 0), packed(0, 0)), 0)
+  assertEquals(jaccard(packed(1), packed(2)), 1)
+})
@@ -0,0 +1,54 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
+import { assertThrows } from 'https://deno.land/std@0.224.0/assert/assert_throws.ts'
+import { compileFilter } from '../src/filter.ts'
+import type { Metadata, MetadataFilter } from '../src/types.ts'
+
+const docs: Record<string, Metadata> = {
+  a: { lang: 'en', year: 2020, tags: ['news', 'tech'], author: { name: 'ann' } },
+  b: { lang: 'de', year: 2022, tags: ['tech'] },
+  c: { lang: 'en', year: 2024, draft: true },
+}
+
+function matching(filter: MetadataFilter): string[] {
+  const predicate = compileFilter(filter)
+  return Object.keys(docs).filter((id) => predicate(docs[id]))
+}
+
+Deno.test('compileFilter: equality and array membership', () => {
+  assertEquals(matching({ lang: 'en' }), ['a', 'c'])
+  assertEquals(matching({ lang: { $ne: 'en' } }), ['b'])
+  assertEquals(matching({ tags: 'tech' }), ['a', 'b'])
+  assertEquals(matching({ 'author.name': 'ann' }), ['a'])
+})
+
+Deno.test('compileFilter: in, range and exists', () => {
+  assertEquals(matching({ lang: { $in: ['de', 'fr'] } }), ['b'])
+  assertEquals(matching({ lang: { $nin: ['de'] } }), ['a', 'c'])
+  assertEquals(matching({ year: { $gte: 2022, $lt: 2024 } }), ['b'])
+  // Type mismatches never match a range
+  assertEquals(matching({ lang: { $gt: 0 } }), [])
+  assertEquals(matching({ draft: { $exists: true } }), ['c'])
+  assertEquals(matching({ draft: { $exists: false } }), ['a', 'b'])
+})
+
+Deno.test('compileFilter: boolean combinators', () => {
+  assertEquals(matching({ $or: [{ lang: 'de' }, { year: 2024 }] }), ['b', 'c'])
+  assertEquals(matching({ $and: [{ lang: 'en' }, { tags: 'news' }] }), ['a'])
+  assertEquals(matching({ $not: { lang: 'en' } }), ['b'])
+  assertEquals(matching({ lang: 'en', $not: { draft: true } }), ['a'])
+})
+
+Deno.test('compileFilter: missing metadata only matches negations', () => {
+  assertEquals(compileFilter({ lang: 'en' })(undefined), false)
+  assertEquals(compileFilter({ lang: { $exists: false } })(undefined), true)
+})
+
+Deno.test('compileFilter: rejects unknown operators', () => {
+  assertThrows(() => compileFilter({ $nor: [] }), Error, 'Unknown filter operator')
+  assertThrows(() => compileFilter({ year: { $between: [1, 2] } }), Error, 'Unknown filter operator')
+})
+
+Deno.test('compileFilter: rejects $in and $nin operands that are not arrays', () => {
+  assertThrows(() => compileFilter({ lang: { $in: 'en' } } as unknown as MetadataFilter), Error, '$in expects an array')
+  assertThrows(() => compileFilter({ 'author.name': { $nin: null } } as unknown as MetadataFilter), Error, '$nin expects an array')
+})
@@ -0,0 +1,42 @@
+import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
+import { decodeFloat16, encodeFloat16, float16Table, toFloat16Bits } from '../src/float16.ts'
+
+Deno.test('toFloat16Bits: known encodings', () => {
+  assertEquals(toFloat16Bits(0), 0x0000)
+  assertEquals(toFloat16Bits(-0), 0x8000)
+  assertEquals(toFloat16Bits(1), 0x3C00)
+  assertEquals(toFloat16Bits(-2), 0xC000)
+  assertEquals(toFloat16Bits(65504), 0x7BFF)
+  assertEquals(toFloat16Bits(1e6), 0x7C00)
+  assertEquals(toFloat16Bits(-Infinity), 0xFC00)
+  assertEquals(toFloat16Bits(2 ** -24), 0x0001)
+  assertEquals(toFloat16Bits(2 ** -26), 0x0000)
+  assert((toFloat16Bits(NaN) & 0x3FF) !== 0)
+})
+
+Deno.test('toFloat16Bits: rounds to nearest even', () => {
+  // Halfway between 1 and the next half (1 + 2^-10) rounds down to the even 1
+  assertEquals(toFloat16Bits(1 + 2 ** -11), 0x3C00)
+  // Halfway above an odd mantissa rounds up
+  assertEquals(toFloat16Bits(1 + 3 * 2 ** -11), 0x3C02)
+  assertEquals(toFloat16Bits(1 + 2 ** -11 + 2 ** -20), 0x3C01)
+})
+
+Deno.test('float16: every finite half roundtrips through its float value', () => {
+  const table = float16Table()
+  for (let h = 0; h < 0x10000; h++) {
+    if (((h >>> 10) & 0x1F) === 0x1F) continue
+    assertEquals(toFloat16Bits(table[h]), h)
+  }
+})
+
+Deno.test('encodeFloat16/decodeFloat16: relative error under 2^-11', () => {
+  const vec = Float32Array.from({ length: 64 }, (_, i) => Math.sin(i) * (i + 1))
+  const halves = new Uint16Array(70)
+  encodeFloat16(vec, halves, 6)
+  const restored = decodeFloat16(halves, 6, 64)
+  for (let i = 0; i < 64; i++) {
+    assert(Math.abs(restored[i] - vec[i]) <= Math.abs(vec[i]) * 2 ** -11)
+  }
+})
@@ -1,7 +1,11 @@
 import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
 import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
 import { assertThrows } from 'https://deno.land/std@0.224.0/assert/assert_throws.ts'
+import { assertAlmostEquals } from 'https://deno.land/std@0.224.0/assert/assert_almost_equals.ts'
 import { HNSWIndex } from '../src/hnsw_index.ts'
+import { createRng } from '../src/random.ts'
+import { euclidean } from '../src/distances.ts'
+import { registerMetric } from '../src/metrics.ts'
 import { defaultHNSWConfig } from '../src/types.ts'
 
 function makeConfig(dims: number, overrides?: Record<string, unknown>) {
@@ -143,6 +147,151 @@ Deno.test('HNSWIndex: getVector returns null for deleted', () => {
   assertEquals(index.getVector('a'), null)
 })
 
+Deno.test('HNSWIndex: insert reuses a tombstoned ID', () => {
+  const config = makeConfig(2)
+  const index = new HNSWIndex(config)
+
+  index.insert('a', [1, 0])
+  index.insert('b', [0, 1])
+  index.delete('a')
+
+  index.insert('a', [-1, 0])
+  assertEquals(index.size, 2)
+  assertEquals(index.totalAllocated, 2)
+  assertEquals(Array.from(index.getVector('a')!), [-1, 0])
+  assertEquals(index.search([-1, 0], 1)[0].id, 'a')
+})
+
+Deno.test('HNSWIndex: upsert replaces vector and repairs graph', () => {
+  const config = makeConfig(2, { M: 4 })
+  const index = new HNSWIndex(config)
+
+  const n = 300
+  for (let i = 0; i < n; i++) {
+    index.insert(`v${i}`, [Math.cos(i * 0.02), Math.sin(i * 0.02)])
+  }
+
+  // Move every third vector to the opposite side of the circle
+  for (let i = 0; i < n; i += 3) {
+    index.upsert(`v${i}`, [-Math.cos(i * 0.02), -Math.sin(i * 0.02)])
+  }
+  assertEquals(index.size, n)
+  assertEquals(index.totalAllocated, n)
+
+  let found = 0
+  for (let i = 0; i < n; i += 3) {
+    const results = index.search([-Math.cos(i * 0.02), -Math.sin(i * 0.02)], 1)
+    if (results[0].id === `v${i}`) found++
+  }
+  assert(found / Math.ceil(n / 3) >= 0.95, `found ${found}`)
+})
+
+Deno.test('HNSWIndex: upsert inserts new IDs', () => {
+  const config = makeConfig(2)
+  const index = new HNSWIndex(config)
+
+  index.upsert('a', [1, 0])
+  index.upsert('a', [0, 1])
+  assertEquals(index.size, 1)
+  assertEquals(Array.from(index.getVector('a')!), [0, 1])
+})
+
+Deno.test('HNSWIndex: eager delete repairs graph and recycles slots', () => {
+  const config = makeConfig(2, { M: 4, eagerDelete: true })
+  const index = new HNSWIndex(config)
+
+  const n = 400
+  const point = (i: number) => [Math.cos(i * 0.015), Math.sin(i * 0.015)]
+  for (let i = 0; i < n; i++) index.insert(`v${i}`, point(i))
+
+  for (let i = 0; i < n; i += 2) {
+    assertEquals(index.delete(`v${i}`), true)
+  }
+  assertEquals(index.size, n / 2)
+  assert(!index.has('v0'))
+
+  // Every surviving vector is still reachable
+  let found = 0
+  for (let i = 1; i < n; i += 2) {
+    const results = index.search(point(i), 1)
+    if (results[0].id === `v${i}`) found++
+    assert(results.every((r) => Number(r.id.slice(1)) % 2 === 1))
+  }
+  assert(found / (n / 2) >= 0.95, `found ${found}`)
+
+  // Freed slots are reused before the index grows. The rare node still linked
+  // from outside its neighborhood keeps its slot as a tombstone
+  for (let i = 0; i < n; i += 2) index.insert(`w${i}`, point(i))
+  assertEquals(index.size, n)
+  assert(index.totalAllocated <= n + n / 50, `allocated ${index.totalAllocated}`)
+  assertEquals(index.search(point(10), 1)[0].id, 'w10')
+})
+
+Deno.test('HNSWIndex: eager delete recycles only slots nothing links to', () => {
+  const index = new HNSWIndex(makeConfig(2, { M: 2, Mmax0: 3, eagerDelete: true, efConstruction: 8 }))
+  let seed = 99
+  const rand = () => {
+    seed = (seed * 1664525 + 1013904223) >>> 0
+    return seed / 0x100000000
+  }
+  for (let i = 0; i < 600; i++) index.insert(`v${i}`, [rand() * 10, rand() * 10])
+
+  for (let round = 0; round < 3; round++) {
+    for (let i = round; i < 600; i += 4) index.delete(`v${i}`)
+
+    // No list, not even a kept tombstone's, points at a recycled slot
+    const state = index.getInternalState()
+    for (let l = 0; l < state.adjacency.length; l++) {
+      const maxN = l === 0 ? 3 : 2
+      for (let y = 0; y < state.count; y++) {
+        for (let j = 0; j < state.neighborCounts[l][y]; j++) {
+          const n = state.adjacency[l][y * maxN + j]
+          assert(state.internalToExternal[n] !== '', `layer ${l}: node ${y} links to recycled slot ${n}`)
+        }
+      }
+    }
+    for (let i = round; i < 600; i += 4) index.insert(`w${round}-${i}`, [rand() * 10, rand() * 10])
+  }
+  assertEquals(index.size, 600)
+})
+
+Deno.test('HNSWIndex: eager delete of every node, including the entry point', () => {
+  const config = makeConfig(2, { eagerDelete: true })
+  const index = new HNSWIndex(config)
+
+  for (let i = 0; i < 30; i++) index.insert(`v${i}`, [i, 0])
+  for (let i = 0; i < 30; i++) {
+    index.delete(`v${i}`)
+    const results = index.search([0, 0], 30)
+    assertEquals(results.length, 29 - i)
+  }
+  assertEquals(index.entryPoint, -1)
+
+  index.insert('a', [1, 1])
+  assertEquals(index.search([0, 0], 1)[0].id, 'a')
+})
+
+Deno.test('HNSWIndex: unfiltered search with tombstones does not fall back to a scan', () => {
+  let calls = 0
+  registerMetric('test-counted-l2', {
+    distance: (a, b) => {
+      calls++
+      return euclidean(a, b)
+    },
+    triangleInequality: false,
+  })
+  const index = new HNSWIndex(makeConfig(2, { metric: 'test-counted-l2' }))
+  for (let i = 0; i < 300; i++) index.insert(`v${i}`, [i, 0])
+  for (let i = 0; i < 300; i += 3) index.delete(`v${i}`)
+
+  // Fewer live vectors than k: the walk reaches them all, and a scan would
+  // compute another 200 distances
+  calls = 0
+  const results = index.search([0, 0], 250)
+  assertEquals(results.length, 200)
+  assert(calls < 400, `${calls} distance computations`)
+})
+
 Deno.test('HNSWIndex: compact removes deleted nodes', () => {
   const config = makeConfig(2)
   const index = new HNSWIndex(config)
@@ -161,6 +310,49 @@ Deno.test('HNSWIndex: compact removes deleted nodes', () => {
   assert(compacted.has('c'))
 })
 
+Deno.test('HNSWIndex: compact keeps the graph searchable and remaps IDs', () => {
+  const config = makeConfig(2, { M: 4 })
+  const index = new HNSWIndex(config)
+
+  const n = 400
+  const point = (i: number) => [Math.cos(i * 0.015), Math.sin(i * 0.015)]
+  for (let i = 0; i < n; i++) index.insert(`v${i}`, point(i))
+  for (let i = 0; i < n; i++) {
+    if (i % 3 !== 0) index.delete(`v${i}`)
+  }
+  const compacted = index.compact()
+
+  const live = Math.ceil(n / 3)
+  assertEquals(compacted.size, live)
+  assertEquals(compacted.totalAllocated, live)
+  assertEquals(Array.from(compacted.getVector('v300')!), Array.from(index.getVector('v300')!))
+  assert(!compacted.has('v1'))
+
+  let found = 0
+  for (let i = 0; i < n; i += 3) {
+    if (compacted.search(point(i), 1)[0].id === `v${i}`) found++
+  }
+  assert(found / live >= 0.95, `found ${found}`)
+
+  // Compacted index accepts new inserts
+  compacted.insert('new', [0, -1])
+  assertEquals(compacted.search([0, -1], 1)[0].id, 'new')
+})
+
+Deno.test('HNSWIndex: compact replaces a deleted entry point', () => {
+  const config = makeConfig(2)
+  const index = new HNSWIndex(config)
+
+  for (let i = 0; i < 50; i++) index.insert(`v${i}`, [i, 0])
+  const entryId = index.getInternalState().internalToExternal[index.entryPoint]
+  index.delete(entryId)
+
+  const compacted = index.compact()
+  assertEquals(compacted.size, 49)
+  assert(compacted.entryPoint >= 0)
+  assertEquals(compacted.search([10, 0], 49).length, 49)
+})
+
 Deno.test('HNSWIndex: search with filter', () => {
   const config = makeConfig(2)
   const index = new HNSWIndex(config)
@@ -175,6 +367,256 @@ Deno.test('HNSWIndex: search with filter', () => {
   assertEquals(results[0].id, 'c')
 })
 
+Deno.test('HNSWIndex: search with metadata filter', () => {
+  const config = makeConfig(2)
+  const index = new HNSWIndex(config)
+
+  index.insert('a', [1, 0], { lang: 'en', year: 2020 })
+  index.insert('b', [0.9, 0.1], { lang: 'de', year: 2022 })
+  index.insert('c', [0, 1], { lang: 'en', year: 2024 })
+  index.insert('d', [0.8, 0.2])
+
+  const en = index.search([1, 0], 5, undefined, { lang: 'en' })
+  assertEquals(en.map((r) => r.id), ['a', 'c'])
+
+  const recent = index.search([1, 0], 5, undefined, {
+    $or: [{ lang: 'de' }, { year: { $gt: 2023 } }],
+  })
+  assertEquals(recent.map((r) => r.id), ['b', 'c'])
+})
+
+Deno.test('HNSWIndex: restrictive filters still return k results', () => {
+  const config = makeConfig(8, { efSearch: 10 })
+  const index = new HNSWIndex(config)
+  const rng = createRng(7)
+  const vectors: Float32Array[] = []
+
+  const n = 2000
+  for (let i = 0; i < n; i++) {
+    const v = new Float32Array(8)
+    for (let d = 0; d < 8; d++) v[d] = rng()
+    vectors.push(v)
+    // bucket 0..19: each holds 5% of nodes; rare: 0.5%
+    index.insert(`v${i}`, v, { bucket: i % 20, rare: i % 200 === 0 })
+  }
+
+  const exact = (query: Float32Array, pred: (i: number) => boolean, k: number) =>
+    vectors
+      .map((v, i) => ({ i, d: index.distanceFn(query, v) }))
+      .filter(({ i }) => pred(i))
+      .sort((a, b) => a.d - b.d)
+      .slice(0, k)
+      .map(({ i }) => `v${i}`)
+
+  const query = vectors[1]
+
+  // Graph path: only nodes in bucket 3 may fill the 10 slots
+  const bucket = index.search(query, 10, undefined, { bucket: 3 })
+  assertEquals(bucket.length, 10)
+  assert(bucket.every((r) => Number(r.id.slice(1)) % 20 === 3))
+  const truth = exact(query, (i) => i % 20 === 3, 10)
+  assert(bucket.filter((r) => truth.includes(r.id)).length >= 8)
+
+  // Brute-force path: exact answer over the 10 rare nodes
+  const rare = index.search(query, 10, undefined, { rare: true })
+  assertEquals(rare.map((r) => r.id), exact(query, (i) => i % 200 === 0, 10))
+
+  // Tombstones route but never take result slots
+  for (let i = 0; i < n; i += 2) index.delete(`v${i}`)
+  const live = index.search(query, 10)
+  assertEquals(live.length, 10)
+  assert(live.every((r) => Number(r.id.slice(1)) % 2 === 1))
+})
+
+Deno.test('HNSWIndex: rangeSearch returns every vector within the radius', () => {
+  const config = makeConfig(4, { efSearch: 8 })
+  const index = new HNSWIndex(config)
+  const rng = createRng(11)
+  const vectors: Float32Array[] = []
+
+  for (let i = 0; i < 1000; i++) {
+    const v = new Float32Array(4)
+    for (let d = 0; d < 4; d++) v[d] = rng()
+    vectors.push(v)
+    index.insert(`v${i}`, v, { even: i % 2 === 0 })
+  }
+
+  const query = vectors[0]
+  const radius = 0.1 // squared L2
+  const expected = vectors
+    .map((v, i) => ({ id: `v${i}`, d: index.distanceFn(query, v), even: i % 2 === 0 }))
+    .filter((e) => e.d <= radius)
+    .sort((a, b) => a.d - b.d)
+  // The beam must grow well past efSearch to cover the ball
+  assert(expected.length > 8)
+
+  const results = index.rangeSearch(query, radius)
+  assertEquals(results.map((r) => r.id), expected.map((e) => e.id))
+
+  const even = index.rangeSearch(query, radius, undefined, { even: true })
+  assertEquals(even.map((r) => r.id), expected.filter((e) => e.even).map((e) => e.id))
+
+  assertEquals(index.rangeSearch([5, 5, 5, 5], radius), [])
+})
+
+Deno.test('HNSWIndex: int8 quantization searches on codes and can rerank', () => {
+  const rng = createRng(3)
+  const vectors = Array.from({ length: 500 }, () => Float32Array.from({ length: 16 }, () => rng() * 2 - 1))
+
+  const exact = new HNSWIndex(makeConfig(16))
+  const int8 = new HNSWIndex(makeConfig(16, { quantization: 'int8' }))
+  const reranked = new HNSWIndex(makeConfig(16, { quantization: 'int8', rerank: true }))
+  vectors.forEach((v, i) => {
+    exact.insert(`v${i}`, v)
+    int8.insert(`v${i}`, v)
+    reranked.insert(`v${i}`, v)
+  })
+
+  // Codes only: about a quarter of the float storage
+  assert(int8.memoryUsage() < exact.memoryUsage())
+  assert(reranked.memoryUsage() > exact.memoryUsage())
+
+  let overlap = 0
+  for (let i = 0; i < 20; i++) {
+    const truth = exact.search(vectors[i], 10).map((r) => r.id)
+    const approx = int8.search(vectors[i], 10)
+    overlap += approx.filter((r) => truth.includes(r.id)).length
+    assertEquals(approx[0].id, `v${i}`)
+
+    // Reranked distances are exact float32 distances
+    const top = reranked.search(vectors[i], 3)
+    for (const r of top) {
+      assertEquals(r.distance, exact.distanceFn(vectors[i], vectors[Number(r.id.slice(1))]))
+    }
+  }
+  assert(overlap / 200 > 0.9)
+
+  // Without float copies, getVector returns the dequantized vector
+  const restored = int8.getVector('v0')!
+  for (let d = 0; d < 16; d++) assert(Math.abs(restored[d] - vectors[0][d]) < 0.01)
+
+  // Compaction keeps codes aligned with their nodes
+  for (let i = 0; i < 250; i++) int8.delete(`v${i}`)
+  const compacted = int8.compact()
+  assertEquals(compacted.search(vectors[300], 1)[0].id, 'v300')
+})
+
+Deno.test('HNSWIndex: product quantization trains codebooks and searches with ADC', () => {
+  const rng = createRng(5)
+  const vectors = Array.from({ length: 600 }, () => Float32Array.from({ length: 16 }, () => rng() * 2 - 1))
+  const overrides = { quantization: 'pq', pqSubspaces: 4, pqTrainingSize: 300 }
+
+  const exact = new HNSWIndex(makeConfig(16))
+  const pq = new HNSWIndex(makeConfig(16, overrides))
+  const reranked = new HNSWIndex(makeConfig(16, { ...overrides, rerank: true }))
+  vectors.forEach((v, i) => {
+    exact.insert(`v${i}`, v)
+    pq.insert(`v${i}`, v)
+    reranked.insert(`v${i}`, v)
+  })
+
+  // Trained: 4 one-byte codes per node instead of 64 bytes of floats
+  assertEquals(pq.getInternalState().vectors.length, 0)
+  assertEquals(pq.getInternalState().pqCodes.length, pq.getInternalState().capacity * 4)
+  assert(pq.memoryUsage() < exact.memoryUsage())
+
+  let overlap = 0
+  let rerankedOverlap = 0
+  for (let i = 0; i < 20; i++) {
+    const truth = exact.search(vectors[i], 10).map((r) => r.id)
+    overlap += pq.search(vectors[i], 10, 100).filter((r) => truth.includes(r.id)).length
+
+    // Reranking re-scores candidates with exact distances
+    const top = reranked.search(vectors[i], 10, 100)
+    rerankedOverlap += top.filter((r) => truth.includes(r.id)).length
+    assertEquals(top[0].id, `v${i}`)
+    assertEquals(top[0].distance, 0)
+  }
+  assert(overlap / 200 > 0.5)
+  assert(rerankedOverlap > overlap)
+
+  // getVector returns the reconstruction from the codebook
+  assertEquals(pq.getVector('v0')!.length, 16)
+
+  // Compaction keeps codes aligned with their nodes
+  for (let i = 0; i < 300; i++) reranked.delete(`v${i}`)
+  assertEquals(reranked.compact().search(vectors[400], 1)[0].id, 'v400')
+})
+
+Deno.test('HNSWIndex: binary quantization walks by Hamming distance and reranks exactly', () => {
+  const rng = createRng(9)
+  const vectors = Array.from({ length: 500 }, () => Float32Array.from({ length: 64 }, () => rng() * 2 - 1))
+
+  const exact = new HNSWIndex(makeConfig(64, { metric: 'cosine' }))
+  const binary = new HNSWIndex(makeConfig(64, { metric: 'cosine', quantization: 'binary' }))
+  vectors.forEach((v, i) => {
+    exact.insert(`v${i}`, v)
+    binary.insert(`v${i}`, v)
+  })
+  assertEquals(binary.getInternalState().bits.length, binary.getInternalState().capacity * 2)
+
+  let overlap = 0
+  for (let i = 0; i < 20; i++) {
+    const truth = exact.search(vectors[i], 10).map((r) => r.id)
+    const results = binary.search(vectors[i], 10, 100)
+    overlap += results.filter((r) => truth.includes(r.id)).length
+    for (const r of results) {
+      assertEquals(r.distance, exact.distanceFn(vectors[i], vectors[Number(r.id.slice(1))]))
+    }
+  }
+  assert(overlap / 200 > 0.8)
+
+  // The radius is in metric units even though traversal is not
+  const radius = exact.search(vectors[0], 5)[4].distance
+  assertEquals(binary.rangeSearch(vectors[0], radius, 100).map((r) => r.id), exact.search(vectors[0], 5).map((r) => r.id))
+})
+
+Deno.test('HNSWIndex: binary rangeSearch is not capped at efSearch', () => {
+  const rng = createRng(11)
+  const vectors = Array.from({ length: 400 }, () => Float32Array.from({ length: 32 }, () => rng() * 2 - 1))
+  const binary = new HNSWIndex(makeConfig(32, { metric: 'cosine', quantization: 'binary', efSearch: 10 }))
+  vectors.forEach((v, i) => binary.insert(`v${i}`, v))
+
+  const distances = vectors.map((v) => binary.distanceFn(vectors[0], v)).sort((a, b) => a - b)
+  const radius = distances[59]
+  const results = binary.rangeSearch(vectors[0], radius)
+  // Far more than efSearch lie within the radius
+  assertEquals(results.length, 60)
+  assert(results.every((r) => r.distance <= radius))
+})
+
+Deno.test('HNSWIndex: pqSubspaces must divide dimensions', () => {
+  assertThrows(() => new HNSWIndex(makeConfig(10, { quantization: 'pq', pqSubspaces: 3 })), Error, 'must divide')
+})
+
+Deno.test('HNSWIndex: float16 vector storage', () => {
+  const rng = createRng(4)
+  const vectors = Array.from({ length: 300 }, () => Float32Array.from({ length: 16 }, () => rng() * 2 - 1))
+  const exact = new HNSWIndex(makeConfig(16))
+  const half = new HNSWIndex(makeConfig(16, { vectorType: 'float16' }))
+  vectors.forEach((v, i) => {
+    exact.insert(`v${i}`, v)
+    half.insert(`v${i}`, v)
+  })
+
+  assertEquals(half.getInternalState().vectors.length, 0)
+  assert(half.memoryUsage() < exact.memoryUsage())
+  for (let i = 0; i < 20; i++) {
+    assertEquals(half.search(vectors[i], 5).map((r) => r.id), exact.search(vectors[i], 5).map((r) => r.id))
+  }
+  const restored = half.getVector('v0')!
+  for (let d = 0; d < 16; d++) assert(Math.abs(restored[d] - vectors[0][d]) < 1e-3)
+
+  // Float16Array input, where the runtime has it
+  const Float16 = (globalThis as Record<string, unknown>).Float16Array as (new (v: ArrayLike<number>) => ArrayLike<number>) | undefined
+  if (Float16) {
+    half.insert('h', new Float16(vectors[7]))
+    assertEquals(half.getVector('h'), half.getVector('v7'))
+  }
+
+  assertThrows(() => new HNSWIndex(makeConfig(16, { vectorType: 'float16', quantization: 'int8' })), Error, 'requires quantization none')
+})
+
 Deno.test('HNSWIndex: cosine metric works', () => {
   const config = makeConfig(3, { metric: 'cosine' })
   const index = new HNSWIndex(config)
@@ -189,6 +631,21 @@ Deno.test('HNSWIndex: cosine metric works', () => {
   assertEquals(results[1].id, 'c')
 })
 
+Deno.test('HNSWIndex: cosine distances from cached norms match cosine()', () => {
+  const rng = createRng(8)
+  const vectors = Array.from({ length: 200 }, () => Float32Array.from({ length: 12 }, () => rng() * 2 - 1))
+  const index = new HNSWIndex(makeConfig(12, { metric: 'cosine' }))
+  vectors.forEach((v, i) => index.insert(`v${i}`, v))
+  index.upsert('v5', vectors[6])
+
+  const query = vectors[6].map((x) => x * 3)
+  for (const r of index.search(query, 10)) {
+    const stored = index.getVector(r.id)!
+    assertAlmostEquals(r.distance, index.distanceFn(query, stored), 1e-6)
+  }
+  assertEquals(index.search(query, 2).map((r) => r.distance < 1e-6), [true, true])
+})
+
 Deno.test('HNSWIndex: inner_product metric works', () => {
   const config = makeConfig(3, { metric: 'inner_product' })
   const index = new HNSWIndex(config)
@@ -204,6 +661,55 @@ Deno.test('HNSWIndex: inner_product metric works', () => {
   assertEquals(results[2].id, 'c')
 })
 
+Deno.test('HNSWIndex: mips finds the largest dot products among vectors of varying norm', () => {
+  const rng = createRng(11)
+  const dim = 16
+  // Norms spread over two orders of magnitude
+  const vectors = Array.from({ length: 800 }, () => {
+    const scale = 0.1 + 10 * rng() * rng()
+    return Float32Array.from({ length: dim }, () => (rng() * 2 - 1) * scale)
+  })
+  const index = new HNSWIndex(makeConfig(dim, { metric: 'inner_product', mips: true, efSearch: 100 }))
+  vectors.forEach((v, i) => index.insert(`v${i}`, v))
+
+  let hits = 0
+  for (let q = 0; q < 20; q++) {
+    const query = Float32Array.from({ length: dim }, () => rng() * 2 - 1)
+    const truth = vectors
+      .map((v, i) => ({ id: `v${i}`, distance: index.distanceFn(query, v) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, 10)
+    const results = index.search(query, 10)
+    // Distances are the inner_product metric's -dot, not augmented L2
+    for (const r of results) assertAlmostEquals(r.distance, index.distanceFn(query, index.getVector(r.id)!), 1e-4)
+    const found = new Set(results.map((r) => r.id))
+    hits += truth.filter((t) => found.has(t.id)).length
+  }
+  assert(hits / 200 >= 0.9, `MIPS recall@10 is ${hits / 200}`)
+  assertEquals(index.getVector('v3'), vectors[3])
+})
+
+Deno.test('HNSWIndex: mips requires float32 inner_product without quantization', () => {
+  assertThrows(() => new HNSWIndex(makeConfig(4, { mips: true })), Error, 'mips requires')
+  assertThrows(() => new HNSWIndex(makeConfig(4, { metric: 'inner_product', mips: true, quantization: 'int8' })), Error, 'mips requires')
+  assertThrows(() => new HNSWIndex(makeConfig(4, { metric: 'inner_product', mips: true, vectorType: 'float16' })), Error, 'mips requires')
+})
+
+Deno.test('HNSWIndex: packed-bit metrics read words and require float32 without quantization', () => {
+  const index = new HNSWIndex(makeConfig(2, { metric: 'hamming' }))
+  // Plain arrays and Uint32Arrays are taken as words, including ones that are NaN as floats
+  index.insert('a', [0xFFFFFFFF, 0x7FC00001])
+  index.insert('b', new Uint32Array([0, 1]))
+  const results = index.search([0xFFFFFFFF, 0x7FC00000], 2)
+  assertEquals(results.map((r) => [r.id, r.distance]), [['a', 1], ['b', 32 + 10]])
+  assertEquals(Array.from(new Uint32Array(index.getVector('a')!.buffer)), [0xFFFFFFFF, 0x7FC00001])
+
+  for (const metric of ['hamming', 'jaccard']) {
+    assertThrows(() => new HNSWIndex(makeConfig(2, { metric, quantization: 'binary' })), Error, 'reads packed bits')
+    assertThrows(() => new HNSWIndex(makeConfig(2, { metric, vectorType: 'float16' })), Error, 'reads packed bits')
+  }
+})
+
 Deno.test('HNSWIndex: handles capacity growth', () => {
   const config = makeConfig(4, { M: 4, efConstruction: 20 })
   const index = new HNSWIndex(config)
@@ -236,6 +742,18 @@ Deno.test('HNSWIndex: simple neighbor selection (no heuristic)', () => {
   assertEquals(results.length, 5)
 })
 
+Deno.test('HNSWIndex: reserve preallocates capacity', () => {
+  const index = new HNSWIndex(makeConfig(2), 4)
+  assertEquals(index.getInternalState().capacity, 4)
+  index.reserve(5000)
+  assertEquals(index.getInternalState().capacity, 5000)
+
+  // No growth is needed while filling the reserved room
+  for (let i = 0; i < 5000; i++) index.insert(`v${i}`, [i, 1])
+  assertEquals(index.getInternalState().capacity, 5000)
+  assertEquals(index.search([42, 1], 1)[0].id, 'v42')
+})
+
 Deno.test('HNSWIndex: memoryUsage returns positive number', () => {
   const config = makeConfig(4)
   const index = new HNSWIndex(config)
@@ -0,0 +1,81 @@
+import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
+import { assertAlmostEquals } from 'https://deno.land/std@0.224.0/assert/assert_almost_equals.ts'
+import { assertThrows } from 'https://deno.land/std@0.224.0/assert/assert_throws.ts'
+import { computeNorm, euclidean } from '../src/distances.ts'
+import { HNSWIndex } from '../src/hnsw_index.ts'
+import { getMetric, hasMetric, registerMetric } from '../src/metrics.ts'
+import { decodeShard, encodeShard, readConfig, readHeader, readLiveIds } from '../src/storage/serialization.ts'
+import { defaultHNSWConfig, type Vector } from '../src/types.ts'
+
+// The registry is process-wide: every test registers its own names
+
+function l1(a: Vector, b: Vector): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i])
+  return sum
+}
+
+Deno.test('registerMetric: built-ins are registered and cannot be replaced', () => {
+  assert(hasMetric('cosine'))
+  assertEquals(getMetric('euclidean').distance, euclidean)
+  assertThrows(() => registerMetric('cosine', { distance: l1, triangleInequality: true }), Error, 'already registered')
+  assertThrows(() => getMetric('nope'), Error, 'registerMetric()')
+})
+
+Deno.test('HNSWIndex: searches with a registered metric', () => {
+  registerMetric('test-l1', { distance: l1, triangleInequality: true })
+  assertEquals(getMetric('test-l1').triangleInequality, true)
+
+  const index = new HNSWIndex(defaultHNSWConfig(2, { seed: 42, metric: 'test-l1' }))
+  for (let x = 0; x < 10; x++) {
+    for (let y = 0; y < 10; y++) index.insert(`${x},${y}`, [x, y])
+  }
+
+  const results = index.search([3.2, 6.9], 3)
+  assertEquals(results[0].id, '3,7')
+  assertAlmostEquals(results[0].distance, 0.3, 1e-6)
+
+  // int8 codes fall back to decoding before calling the custom distance
+  const int8 = new HNSWIndex(defaultHNSWConfig(2, { seed: 42, metric: 'test-l1', quantization: 'int8' }))
+  int8.insert('a', [1, 1])
+  int8.insert('b', [5, 5])
+  assertEquals(int8.search([4, 4], 1)[0].id, 'b')
+})
+
+Deno.test('HNSWIndex: applies the metric preprocessing to stored vectors and queries', () => {
+  registerMetric('test-unit-dot', {
+    distance: (a, b) => -a.reduce((sum, x, i) => sum + x * b[i], 0),
+    preprocess: (v) => v.map((x) => x / computeNorm(v)),
+    triangleInequality: false,
+  })
+
+  const index = new HNSWIndex(defaultHNSWConfig(2, { seed: 42, metric: 'test-unit-dot' }))
+  index.insert('long', [10, 0])
+  index.insert('diagonal', [1, 1])
+  assertAlmostEquals(computeNorm(index.getVector('long')!), 1, 1e-6)
+
+  const [top] = index.search([100, 1], 1)
+  assertEquals(top.id, 'long')
+  assertAlmostEquals(top.distance, -1, 1e-3)
+})
+
+Deno.test('serialization: shards record the metric name', () => {
+  registerMetric('test-l1-stored', { distance: l1, triangleInequality: true })
+  const index = new HNSWIndex(defaultHNSWConfig(3, { seed: 42, metric: 'test-l1-stored' }))
+  for (let i = 0; i < 20; i++) index.insert(`v${i}`, [i, i % 3, 1])
+  index.delete('v2')
+
+  const encoded = encodeShard(index)
+  assertEquals(readHeader(encoded).metric, 'test-l1-stored')
+  assertEquals(readConfig(encoded).metric, 'test-l1-stored')
+  assertEquals(readLiveIds(encoded).length, 19)
+  const decoded = decodeShard(encoded)
+  assertEquals(decoded.search([7, 1, 1], 3), index.search([7, 1, 1], 3))
+
+  // Same-length name that was never registered
+  const renamed = encoded.slice()
+  renamed.set(new TextEncoder().encode('test-l1-missed'), 64 + 4)
+  assertEquals(readConfig(renamed).metric, 'test-l1-missed')
+  assertThrows(() => decodeShard(renamed), Error, 'metric "test-l1-missed", which is not registered')
+})
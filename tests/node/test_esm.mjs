@@ -41,6 +41,20 @@ assert.equal(sr[0].id, "x");
 await store.close();
 console.log("  VectorStore: OK");
 
+// Build and search workers load their modules from the package
+const pooled = VectorStore.create({
+  hnsw: { dimensions: 4, seed: 42 },
+  sharding: { maxVectorsPerShard: 20, buildWorkers: 2, searchWorkers: 2 },
+  storage: new InMemoryStorage(),
+});
+await pooled.bulkInsert(
+  Array.from({ length: 100 }, (_, i) => ({ id: "w" + i, vector: [Math.cos(i), Math.sin(i), i / 100, 1] })),
+);
+const wr = await pooled.search([Math.cos(42), Math.sin(42), 0.42, 1], 1);
+assert.equal(wr[0].id, "w42");
+await pooled.close();
+console.log("  Workers: OK");
+
 // FileSystemStorage
 const dir = await mkdtemp(join(tmpdir(), "hnsw-esm-"));
 try {
@@ -0,0 +1,61 @@
+import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
+import { assertAlmostEquals } from 'https://deno.land/std@0.224.0/assert/assert_almost_equals.ts'
+import { euclidean, innerProduct } from '../src/distances.ts'
+import { adcLookup, computeADCTable, decodePQ, encodePQ, trainPQ } from '../src/pq.ts'
+import { createRng } from '../src/random.ts'
+
+const dim = 8
+const subspaces = 4
+
+function sample(n: number): Float32Array {
+  const rng = createRng(11)
+  return Float32Array.from({ length: n * dim }, () => rng() * 2 - 1)
+}
+
+Deno.test('trainPQ: caps centroids at the number of training rows', () => {
+  const vectors = sample(10)
+  const codebook = trainPQ(vectors, dim, [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], subspaces, 1)
+  assertEquals(codebook.length, 10 * dim)
+
+  // With one centroid per row every vector is reconstructed exactly
+  const codes = new Uint8Array(subspaces)
+  for (let i = 0; i < 10; i++) {
+    const vec = vectors.subarray(i * dim, (i + 1) * dim)
+    encodePQ(vec, codebook, subspaces, codes, 0)
+    assertEquals(decodePQ(codes, 0, codebook, subspaces, dim), vec)
+  }
+})
+
+Deno.test('trainPQ: reconstruction error drops well below the data variance', () => {
+  const n = 600
+  const vectors = sample(n)
+  const codebook = trainPQ(vectors, dim, Array.from({ length: n }, (_, i) => i), subspaces, 1)
+  assertEquals(codebook.length, 256 * dim)
+
+  const codes = new Uint8Array(n * subspaces)
+  let error = 0
+  let energy = 0
+  for (let i = 0; i < n; i++) {
+    const vec = vectors.subarray(i * dim, (i + 1) * dim)
+    encodePQ(vec, codebook, subspaces, codes, i * subspaces)
+    error += euclidean(vec, decodePQ(codes, i * subspaces, codebook, subspaces, dim))
+    energy += euclidean(vec, new Float32Array(dim))
+  }
+  assert(error / energy < 0.1)
+})
+
+Deno.test('computeADCTable: lookups equal distances to the reconstruction', () => {
+  const vectors = sample(300)
+  const codebook = trainPQ(vectors, dim, Array.from({ length: 300 }, (_, i) => i), subspaces, 1)
+  const query = vectors.subarray(0, dim)
+  const codes = new Uint8Array(subspaces)
+  encodePQ(vectors.subarray(5 * dim, 6 * dim), codebook, subspaces, codes, 0)
+  const decoded = decodePQ(codes, 0, codebook, subspaces, dim)
+
+  const l2 = computeADCTable(query, codebook, subspaces, 'euclidean')
+  assertAlmostEquals(adcLookup(l2, codes, 0, subspaces, 256), euclidean(query, decoded), 1e-5)
+
+  const ip = computeADCTable(query, codebook, subspaces, 'inner_product')
+  assertAlmostEquals(adcLookup(ip, codes, 0, subspaces, 256), innerProduct(query, decoded), 1e-5)
+})
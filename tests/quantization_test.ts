@@ -0,0 +1,53 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
+import { assertAlmostEquals } from 'https://deno.land/std@0.224.0/assert/assert_almost_equals.ts'
+import { cosine, euclidean, innerProduct } from '../src/distances.ts'
+import { cosineInt8, dequantizeInt8, euclideanInt8, hamming, innerProductInt8, packBinary, quantizeInt8 } from '../src/quantization.ts'
+
+const a = new Float32Array([0.5, -1, 0.25, 0.75, -0.125])
+const b = new Float32Array([-0.3, 0.9, 0.1, 0.6, 0.2])
+
+Deno.test('quantizeInt8: roundtrip stays within half a step', () => {
+  const codes = new Int8Array(8)
+  const scale = quantizeInt8(a, codes, 3)
+  assertAlmostEquals(scale, 1 / 127, 1e-9)
+  assertEquals(codes[3 + 1], -127)
+
+  const restored = dequantizeInt8(codes, 3, a.length, scale)
+  for (let i = 0; i < a.length; i++) {
+    assertAlmostEquals(restored[i], a[i], scale / 2 + 1e-7)
+  }
+})
+
+Deno.test('quantizeInt8: zero vector has zero scale', () => {
+  const codes = new Int8Array(3)
+  assertEquals(quantizeInt8(new Float32Array(3), codes, 0), 0)
+  assertEquals(Array.from(codes), [0, 0, 0])
+  assertEquals(cosineInt8(a.subarray(0, 3), codes, 0, 0), 1)
+})
+
+Deno.test('int8 distances approximate float distances', () => {
+  const codes = new Int8Array(b.length)
+  const scale = quantizeInt8(b, codes, 0)
+
+  assertAlmostEquals(euclideanInt8(a, codes, 0, scale), euclidean(a, b), 1e-2)
+  assertAlmostEquals(cosineInt8(a, codes, 0, scale), cosine(a, b), 1e-2)
+  assertAlmostEquals(innerProductInt8(a, codes, 0, scale), innerProduct(a, b), 1e-2)
+})
+
+Deno.test('packBinary: one sign bit per dimension across words', () => {
+  const vec = Float32Array.from({ length: 40 }, (_, i) => i % 3 === 0 ? 1 : -1)
+  const bits = new Uint32Array(4).fill(0xFFFFFFFF)
+  packBinary(vec, bits, 1)
+  assertEquals(bits[0], 0xFFFFFFFF)
+  assertEquals(bits[3], 0xFFFFFFFF)
+  for (let i = 0; i < 40; i++) {
+    assertEquals((bits[1 + (i >>> 5)] >>> (i & 31)) & 1, i % 3 === 0 ? 1 : 0)
+  }
+})
+
+Deno.test('hamming: counts differing bits', () => {
+  const a = new Uint32Array([0xFFFFFFFF, 0b1011])
+  const b = new Uint32Array([0, 0b0001])
+  assertEquals(hamming(a, 0, b, 0, 2), 34)
+  assertEquals(hamming(a, 1, a, 1, 1), 0)
+})
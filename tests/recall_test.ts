@@ -2,6 +2,8 @@ import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
 import { HNSWIndex } from '../src/hnsw_index.ts'
 import { defaultHNSWConfig } from '../src/types.ts'
 import { euclidean } from '../src/distances.ts'
+import { getDistanceFunction } from '../src/metrics.ts'
+import type { DistanceMetric } from '../src/types.ts'
 
 /**
  * Brute-force k-nearest-neighbor search for ground truth.
@@ -99,3 +101,66 @@ Deno.test('Recall@10 >= 0.95 on 10K random 128-dim vectors', () => {
     `Recall@${k} is ${(avgRecall * 100).toFixed(2)}%, expected >= 95%`,
   )
 })
+
+/**
+ * Recall against brute force for the L1, L∞ and bit-vector metrics, the
+ * latter on 256-bit fingerprints packed into eight 32-bit words. Hamming and
+ * Jaccard distances tie often, so a result counts as a hit when it is no
+ * farther than the true k-th neighbor.
+ */
+for (const metric of ['manhattan', 'chebyshev', 'hamming', 'jaccard'] as DistanceMetric[]) {
+  const bits = metric === 'hamming' || metric === 'jaccard'
+  Deno.test(`Recall@10 >= 0.9 for ${metric} on 2K ${bits ? '256-bit packed fingerprints' : '32-dim vectors'}`, () => {
+    const n = 2_000
+    const dim = bits ? 8 : 32
+    const k = 10
+    const numQueries = 50
+    const distance = getDistanceFunction(metric)
+
+    const index = new HNSWIndex(defaultHNSWConfig(dim, { metric, seed: 7, efSearch: 100 }))
+
+    let seed = 54321
+    function nextRand(): number {
+      seed = (seed * 1664525 + 1013904223) & 0xFFFFFFFF
+      return (seed >>> 0) / 0xFFFFFFFF
+    }
+    function randomVector(): Float32Array {
+      if (bits) {
+        const words = new Uint32Array(dim)
+        for (let b = 0; b < dim * 32; b++) {
+          if (nextRand() < 0.3) words[b >>> 5] |= 1 << (b & 31)
+        }
+        return new Float32Array(words.buffer)
+      }
+      const vec = new Float32Array(dim)
+      for (let d = 0; d < dim; d++) vec[d] = nextRand() * 2 - 1
+      return vec
+    }
+
+    const vectors: Float32Array[] = []
+    for (let i = 0; i < n; i++) {
+      const vec = randomVector()
+      vectors.push(vec)
+      // Fingerprints go in as their words
+      index.insert(`v${i}`, bits ? new Uint32Array(vec.buffer) : vec)
+    }
+
+    let hits = 0
+    for (let q = 0; q < numQueries; q++) {
+      const query = randomVector()
+      const truth = vectors.map((v) => distance(query, v)).sort((a, b) => a - b)
+      const kth = truth[k - 1]
+
+      const results = index.search(query, k)
+      for (const r of results) {
+        const exact = distance(query, vectors[Number(r.id.slice(1))])
+        assert(Math.abs(exact - r.distance) < 1e-5, `${metric}: reported ${r.distance}, exact ${exact}`)
+        if (exact <= kth + 1e-9) hits++
+      }
+    }
+
+    const recall = hits / (numQueries * k)
+    console.log(`  ${metric} recall@${k}: ${(recall * 100).toFixed(2)}%`)
+    assert(recall >= 0.9, `${metric} recall@${k} is ${(recall * 100).toFixed(2)}%, expected >= 90%`)
+  })
+}
@@ -0,0 +1,40 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
+import { HNSWIndex } from '../src/hnsw_index.ts'
+import { encodeShard } from '../src/storage/serialization.ts'
+import { defaultHNSWConfig } from '../src/types.ts'
+import { SearchPool } from '../src/workers/search_pool.ts'
+
+function shard(id: string, vector: number[]): Uint8Array {
+  const index = new HNSWIndex(defaultHNSWConfig(2, { seed: 42 }))
+  index.insert(id, vector)
+  return encodeShard(index)
+}
+
+Deno.test('SearchPool: holds at most capacity shards, dropping the least recently searched', async () => {
+  const pool = await SearchPool.create(1, 2)
+  const loads: string[] = []
+  const search = async (key: string, vector: number[]) => {
+    const load = () => {
+      loads.push(key)
+      return Promise.resolve(shard(key, vector))
+    }
+    return (await pool.search(key, 0, load, new Float32Array(vector), 1))[0].id
+  }
+
+  try {
+    assertEquals(await search('a', [0, 0]), 'a')
+    assertEquals(await search('b', [1, 1]), 'b')
+    assertEquals(await search('a', [0, 0]), 'a')
+    // Loading c drops b, which was searched longest ago
+    assertEquals(await search('c', [2, 2]), 'c')
+    assertEquals(await search('a', [0, 0]), 'a')
+    assertEquals(await search('b', [1, 1]), 'b')
+    assertEquals(loads, ['a', 'b', 'c', 'b'])
+
+    // Concurrent searches of more shards than fit all succeed
+    const ids = await Promise.all(['d', 'e', 'f', 'g'].map((key, i) => search(key, [i, 0])))
+    assertEquals(ids, ['d', 'e', 'f', 'g'])
+  } finally {
+    pool.close()
+  }
+})
@@ -3,13 +3,22 @@ import { assertAlmostEquals } from 'https://deno.land/std@0.224.0/assert/assert_
 import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
 import { HNSWIndex } from '../src/hnsw_index.ts'
 import { defaultHNSWConfig } from '../src/types.ts'
-import { decodeShard, encodeShard, readHeader } from '../src/storage/serialization.ts'
+import type { DistanceMetric } from '../src/types.ts'
+import {
+  decodeShard,
+  decodeVectors,
+  encodeShard,
+  encodeVectors,
+  readConfig,
+  readHeader,
+  readLiveIds,
+} from '../src/storage/serialization.ts'
 import { InMemoryStorage } from '../src/storage/in_memory_storage.ts'
 import { FileSystemStorage } from '../src/storage/file_system_storage.ts'
 
 function makeIndex(
   dims: number,
-  metric: 'euclidean' | 'cosine' | 'inner_product' = 'euclidean',
+  metric: DistanceMetric = 'euclidean',
 ) {
   return new HNSWIndex(defaultHNSWConfig(dims, { seed: 42, metric }))
 }
@@ -87,6 +96,37 @@ Deno.test('serialization: cosine metric roundtrip', () => {
   assertEquals(results[0].id, 'a')
 })
 
+Deno.test('serialization: L1, L∞ and bit-vector metrics roundtrip as metric bytes', () => {
+  for (const metric of ['manhattan', 'chebyshev', 'hamming', 'jaccard']) {
+    const index = makeIndex(4, metric)
+    index.insert('a', [1, 0, 1, 0])
+    index.insert('b', [0, 1, 0, 1])
+    index.insert('c', [1, 1, 1, 0])
+
+    const encoded = encodeShard(index)
+    assertEquals(readHeader(encoded).metric, metric)
+    const decoded = decodeShard(encoded)
+    assertEquals(decoded.config.metric, metric)
+    assertEquals(decoded.search([1, 0, 1, 0], 3).map((r) => r.id), index.search([1, 0, 1, 0], 3).map((r) => r.id))
+  }
+})
+
+Deno.test('serialization: mips roundtrip keeps the maximum norm', () => {
+  const index = new HNSWIndex(defaultHNSWConfig(3, { seed: 42, metric: 'inner_product', mips: true }))
+  index.insert('small', [0.1, 0.2, 0])
+  index.insert('large', [6, 0, 8])
+  index.insert('mid', [1, 1, 1])
+
+  const encoded = encodeShard(index)
+  assertEquals(readConfig(encoded).mips, true)
+  const decoded = decodeShard(encoded)
+  assertEquals(decoded.config.mips, true)
+  assertEquals(decoded.getInternalState().maxNorm, 10)
+  assertEquals(decoded.getInternalState().norms.slice(0, 3), index.getInternalState().norms.slice(0, 3))
+  assertEquals(decoded.search([1, 0, 1], 3), index.search([1, 0, 1], 3))
+  assertEquals(decoded.search([1, 0, 1], 1)[0].distance, -14)
+})
+
 Deno.test('serialization: readHeader returns correct metadata', () => {
   const index = makeIndex(128)
   for (let i = 0; i < 50; i++) {
@@ -116,6 +156,171 @@ Deno.test('serialization: unicode IDs roundtrip', () => {
   assertEquals(decoded.has('emoji-🎉'), true)
 })
 
+Deno.test('serialization: tombstones survive roundtrip', () => {
+  const index = makeIndex(2)
+  for (let i = 0; i < 20; i++) {
+    index.insert(`v${i}`, [Math.cos(i), Math.sin(i)])
+  }
+  index.delete('v3')
+  index.delete('v17')
+
+  const encoded = encodeShard(index)
+  assertEquals(readHeader(encoded).deletedCount, 2)
+
+  const decoded = decodeShard(encoded)
+  assertEquals(decoded.size, 18)
+  assertEquals(decoded.totalAllocated, 20)
+  assertEquals(decoded.has('v3'), false)
+  assertEquals(decoded.has('v17'), false)
+  assertEquals(decoded.getVector('v3'), null)
+
+  const results = decoded.search([Math.cos(3), Math.sin(3)], 20)
+  assertEquals(results.length, 18)
+  assert(results.every((r) => r.id !== 'v3' && r.id !== 'v17'))
+})
+
+Deno.test('serialization: eagerly freed slots are reused after roundtrip', () => {
+  const index = new HNSWIndex(defaultHNSWConfig(2, { seed: 42, eagerDelete: true }))
+  for (let i = 0; i < 10; i++) index.insert(`v${i}`, [i, 0])
+  index.delete('v4')
+
+  const decoded = decodeShard(encodeShard(index))
+  assertEquals(decoded.config.eagerDelete, true)
+  assertEquals(decoded.size, 9)
+  assertEquals(readLiveIds(encodeShard(index)).length, 9)
+
+  decoded.insert('x', [4, 0])
+  assertEquals(decoded.totalAllocated, 10)
+  assertEquals(decoded.search([4, 0], 1)[0].id, 'x')
+})
+
+Deno.test('serialization: metadata roundtrip', () => {
+  const index = makeIndex(2)
+  index.insert('a', [1, 0], { title: 'first', tags: ['x', 'y'], n: 1 })
+  index.insert('b', [0, 1])
+  index.insert('c', [1, 1], { nested: { ok: true, none: null } })
+  index.delete('c')
+
+  const encoded = encodeShard(index)
+  const decoded = decodeShard(encoded)
+
+  assertEquals(decoded.getMetadata('a'), { title: 'first', tags: ['x', 'y'], n: 1 })
+  assertEquals(decoded.getMetadata('b'), undefined)
+  assertEquals(decoded.getMetadata('c'), undefined)
+  assertEquals(readLiveIds(encoded), ['a', 'b'])
+  assertEquals(Array.from(decoded.getVector('b')!), [0, 1])
+})
+
+Deno.test('serialization: readLiveIds skips tombstones', () => {
+  const index = makeIndex(3, 'cosine')
+  index.insert('a', [1, 0, 0])
+  index.insert('b', [0, 1, 0])
+  index.insert('c', [0, 0, 1])
+  index.delete('b')
+
+  assertEquals(readLiveIds(encodeShard(index)), ['a', 'c'])
+})
+
+Deno.test('serialization: version 1 files still load', () => {
+  const index = makeIndex(3)
+  index.insert('a', [1, 0, 0])
+  index.insert('b', [0, 1, 0])
+  index.insert('c', [0, 0, 1])
+
+  // A v1 file is a v2 file without the trailing tombstone section
+  const encoded = encodeShard(index)
+  const v1 = encoded.slice(0, encoded.byteLength - 8)
+  new DataView(v1.buffer).setUint32(4, 1, true)
+
+  const decoded = decodeShard(v1)
+  assertEquals(decoded.size, 3)
+  assertEquals(decoded.search([0, 1, 0], 1)[0].id, 'b')
+})
+
+Deno.test('serialization: int8 quantized roundtrip', () => {
+  for (const rerank of [false, true]) {
+    const index = new HNSWIndex(defaultHNSWConfig(4, { seed: 42, quantization: 'int8', rerank }))
+    for (let i = 0; i < 40; i++) {
+      index.insert(`v${i}`, [Math.cos(i), Math.sin(i), i / 40, 1], i % 2 ? { odd: true } : undefined)
+    }
+    index.delete('v3')
+
+    const encoded = encodeShard(index)
+    const decoded = decodeShard(encoded)
+    assertEquals(decoded.config.quantization, 'int8')
+    assertEquals(decoded.config.rerank, rerank)
+    assertEquals(readConfig(encoded).quantization, 'int8')
+    assertEquals(readLiveIds(encoded).length, 39)
+
+    const q = [Math.cos(7), Math.sin(7), 7 / 40, 1]
+    assertEquals(decoded.search(q, 5), index.search(q, 5))
+    assertEquals(decoded.getVector('v7'), index.getVector('v7'))
+    assertEquals(decoded.getMetadata('v7'), { odd: true })
+  }
+})
+
+Deno.test('serialization: product quantized roundtrip keeps codebooks and drops vectors', () => {
+  const index = new HNSWIndex(
+    defaultHNSWConfig(4, { seed: 42, metric: 'cosine', quantization: 'pq', pqSubspaces: 2, pqTrainingSize: 30, rerank: true }),
+  )
+  for (let i = 0; i < 40; i++) index.insert(`v${i}`, [Math.cos(i), Math.sin(i), i / 40, 1])
+  index.delete('v3')
+
+  const encoded = encodeShard(index)
+  const decoded = decodeShard(encoded)
+  const config = readConfig(encoded)
+  assertEquals([config.quantization, config.pqSubspaces, config.rerank], ['pq', 2, true])
+  assertEquals(readLiveIds(encoded).length, 39)
+  assertEquals(decoded.getInternalState().vectors.length, 0)
+  assertEquals(decoded.getInternalState().pqCodebook, index.getInternalState().pqCodebook)
+
+  // Without its vectors the decoded shard answers from codes alone
+  const q = [Math.cos(7), Math.sin(7), 7 / 40, 1]
+  assertEquals(decoded.getVector('v7'), decodeShard(encodeShard(decoded)).getVector('v7'))
+
+  // Reattaching the separately stored vectors restores exact reranking
+  const { vectors, count } = index.getInternalState()
+  decoded.attachVectors(decodeVectors(encodeVectors(vectors, count, 4)))
+  assertEquals(decoded.search(q, 5), index.search(q, 5))
+})
+
+Deno.test('serialization: binary quantized roundtrip', () => {
+  const index = new HNSWIndex(defaultHNSWConfig(40, { seed: 42, quantization: 'binary' }))
+  for (let i = 0; i < 30; i++) {
+    index.insert(`v${i}`, Array.from({ length: 40 }, (_, d) => Math.sin(i * 3 + d)))
+  }
+  index.delete('v3')
+
+  const encoded = encodeShard(index)
+  const decoded = decodeShard(encoded)
+  assertEquals(readConfig(encoded).quantization, 'binary')
+  assertEquals(readLiveIds(encoded).length, 29)
+  assertEquals(decoded.getInternalState().bits, index.getInternalState().bits.slice(0, 60))
+
+  const q = Array.from({ length: 40 }, (_, d) => Math.sin(21 + d))
+  assertEquals(decoded.search(q, 5), index.search(q, 5))
+})
+
+Deno.test('serialization: float16 vectors roundtrip', () => {
+  const index = new HNSWIndex(defaultHNSWConfig(5, { seed: 42, metric: 'cosine', vectorType: 'float16' }))
+  const full = makeIndex(5, 'cosine')
+  for (let i = 0; i < 30; i++) {
+    const vector = Array.from({ length: 5 }, (_, d) => Math.sin(i * 5 + d))
+    index.insert(`v${i}`, vector)
+    full.insert(`v${i}`, vector)
+  }
+
+  const encoded = encodeShard(index)
+  assert(encoded.byteLength < encodeShard(full).byteLength)
+  const decoded = decodeShard(encoded)
+  assertEquals(readConfig(encoded).vectorType, 'float16')
+  assertEquals(readLiveIds(encoded).length, 30)
+  assertEquals(decoded.getVector('v4'), index.getVector('v4'))
+
+  const q = Array.from({ length: 5 }, (_, d) => Math.sin(d))
+  assertEquals(decoded.search(q, 5), index.search(q, 5))
+})
+
 // Storage backend tests
 
 Deno.test('InMemoryStorage: write/read/delete/list/exists', async () => {
@@ -1,5 +1,6 @@
 import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
 import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
+import { assertRejects } from 'https://deno.land/std@0.224.0/assert/assert_rejects.ts'
 import { ShardManager } from '../src/shard_manager.ts'
 import { defaultHNSWConfig, defaultShardConfig } from '../src/types.ts'
 import { InMemoryStorage } from '../src/storage/in_memory_storage.ts'
@@ -95,9 +96,10 @@ Deno.test('ShardManager: flush persists to storage', async () => {
   await manager.insert('a', [1, 0, 0, 0])
   await manager.flush()
 
-  const keys = await storage!.list()
+  const keys = (await storage!.list()).filter((k) => k.startsWith('shard-'))
   assertEquals(keys.length, 1)
   assert(await storage!.exists(keys[0]))
+  assert(await storage!.exists('manifest'))
 })
 
 Deno.test('ShardManager: LRU eviction', async () => {
@@ -144,6 +146,147 @@ Deno.test('ShardManager: load from storage', async () => {
   assertEquals(results.length, 5)
 })
 
+Deno.test('ShardManager: reopen reads counts from the manifest', async () => {
+  const storage = new InMemoryStorage()
+  const hnswConfig = defaultHNSWConfig(4, { seed: 42 })
+  const shardConfig = defaultShardConfig({ maxVectorsPerShard: 5 })
+
+  const manager1 = new ShardManager(hnswConfig, shardConfig, storage)
+  for (let i = 0; i < 12; i++) {
+    await manager1.insert(`v${i}`, [i, 0, 0, 0])
+  }
+  await manager1.delete('v2')
+  await manager1.close()
+
+  const manifest = JSON.parse(new TextDecoder().decode((await storage.read('manifest'))!))
+  assertEquals(manifest.shards.map((s: { count: number }) => s.count), [5, 5, 2])
+  assertEquals(manifest.config.dimensions, 4)
+
+  const manager2 = new ShardManager(hnswConfig, shardConfig, storage)
+  await manager2.loadFromStorage()
+
+  assertEquals(manager2.size, 11)
+  assertEquals(manager2.shardCount, 3)
+  assertEquals(manager2.loadedShardCount, 0)
+
+  // Keys not in the manifest are ignored
+  await storage.write('shard-999999', new Uint8Array([1, 2, 3]))
+  const manager3 = new ShardManager(hnswConfig, shardConfig, storage)
+  await manager3.loadFromStorage()
+  assertEquals(manager3.shardCount, 3)
+  assertEquals(await manager3.delete('v11'), true)
+  assertEquals(manager3.size, 10)
+})
+
+Deno.test('ShardManager: reopen rejects a config mismatch', async () => {
+  const storage = new InMemoryStorage()
+  const shardConfig = defaultShardConfig()
+
+  const manager1 = new ShardManager(defaultHNSWConfig(4, { seed: 42 }), shardConfig, storage)
+  await manager1.insert('a', [1, 0, 0, 0])
+  await manager1.close()
+
+  const manager2 = new ShardManager(
+    defaultHNSWConfig(4, { seed: 42, metric: 'cosine' }),
+    shardConfig,
+    storage,
+  )
+  await assertRejects(
+    () => manager2.loadFromStorage(),
+    Error,
+    'metric=euclidean',
+  )
+})
+
+Deno.test('ShardManager: deletes survive flush and reload', async () => {
+  const storage = new InMemoryStorage()
+  const hnswConfig = defaultHNSWConfig(4, { seed: 42 })
+  const shardConfig = defaultShardConfig({ maxVectorsPerShard: 5 })
+
+  const manager1 = new ShardManager(hnswConfig, shardConfig, storage)
+  for (let i = 0; i < 12; i++) {
+    await manager1.insert(`v${i}`, [i, 0, 0, 0])
+  }
+  await manager1.delete('v0')
+  await manager1.delete('v7')
+  await manager1.close()
+
+  const manager2 = new ShardManager(hnswConfig, shardConfig, storage)
+  await manager2.loadFromStorage()
+
+  assertEquals(manager2.size, 10)
+  assertEquals(await manager2.delete('v0'), false)
+
+  const results = await manager2.search([0, 0, 0, 0], 12)
+  assertEquals(results.length, 10)
+  assert(results.every((r) => r.id !== 'v0' && r.id !== 'v7'))
+})
+
+Deno.test('ShardManager: WAL replays unflushed mutations', async () => {
+  const storage = new InMemoryStorage()
+  const hnswConfig = defaultHNSWConfig(4, { seed: 42 })
+  const shardConfig = defaultShardConfig({ maxVectorsPerShard: 5, writeAheadLog: true })
+
+  const manager1 = new ShardManager(hnswConfig, shardConfig, storage)
+  for (let i = 0; i < 4; i++) {
+    await manager1.insert(`v${i}`, [i, 0, 0, 0])
+  }
+  await manager1.flush()
+  assertEquals(await storage.exists('wal'), false)
+
+  // Mutations after the flush are only in the WAL; simulate a crash by
+  // reopening without flushing
+  for (let i = 4; i < 8; i++) {
+    await manager1.insert(`v${i}`, [i, 0, 0, 0])
+  }
+  await manager1.delete('v1')
+  assert(await storage.exists('wal'))
+
+  const manager2 = new ShardManager(hnswConfig, shardConfig, storage)
+  await manager2.loadFromStorage()
+
+  assertEquals(manager2.size, 7)
+  const results = await manager2.search([7, 0, 0, 0], 8)
+  assertEquals(results.length, 7)
+  assertEquals(results[0].id, 'v7')
+  assert(results.every((r) => r.id !== 'v1'))
+
+  await manager2.flush()
+  assertEquals(await storage.exists('wal'), false)
+})
+
+Deno.test('ShardManager: upsert updates in place and reuses deleted IDs', async () => {
+  const storage = new InMemoryStorage()
+  const hnswConfig = defaultHNSWConfig(4, { seed: 42 })
+  const shardConfig = defaultShardConfig({ maxVectorsPerShard: 3 })
+
+  const manager1 = new ShardManager(hnswConfig, shardConfig, storage)
+  for (let i = 0; i < 5; i++) {
+    await manager1.insert(`v${i}`, [i, 0, 0, 0])
+  }
+  await manager1.upsert('v1', [0, 9, 0, 0])
+  assertEquals(manager1.size, 5)
+
+  // v0 lives in the first shard; re-inserting it lands in the current one
+  await manager1.delete('v0')
+  await manager1.insert('v0', [0, 0, 9, 0])
+  await manager1.upsert('v5', [5, 0, 0, 0])
+  assertEquals(manager1.size, 6)
+  await manager1.close()
+
+  const manager2 = new ShardManager(hnswConfig, shardConfig, storage)
+  await manager2.loadFromStorage()
+  assertEquals(manager2.size, 6)
+
+  const v1 = await manager2.search([0, 9, 0, 0], 1, { includeVectors: true })
+  assertEquals(v1[0].id, 'v1')
+  assertEquals(Array.from(v1[0].vector!), [0, 9, 0, 0])
+
+  const v0 = await manager2.search([0, 0, 9, 0], 6)
+  assertEquals(v0[0].id, 'v0')
+  assertEquals(v0.filter((r) => r.id === 'v0').length, 1)
+})
+
 Deno.test('ShardManager: search with filter', async () => {
   const { manager } = makeManager()
 
@@ -188,3 +331,219 @@ Deno.test('ShardManager: compact rebuilds shards', async () => {
     assert(r.id !== 'b')
   }
 })
+
+Deno.test('ShardManager: compact reports progress and skips clean shards', async () => {
+  const { manager } = makeManager({ maxPerShard: 5 })
+
+  for (let i = 0; i < 15; i++) {
+    await manager.insert(`v${i}`, [i, 0, 0, 0])
+  }
+  await manager.delete('v6')
+  await manager.delete('v7')
+
+  const progress: { shardKey: string; shardsDone: number; shardsTotal: number; removed: number }[] = []
+  await manager.compact({ onProgress: (p) => progress.push(p) })
+
+  assertEquals(progress.map((p) => p.shardsDone), [1, 2, 3])
+  assertEquals(progress.map((p) => p.shardsTotal), [3, 3, 3])
+  assertEquals(progress.map((p) => p.removed), [0, 2, 0])
+  assertEquals(manager.size, 13)
+
+  const results = await manager.search([6, 0, 0, 0], 3)
+  assertEquals(results.map((r) => r.id).sort(), ['v4', 'v5', 'v8'])
+})
+
+Deno.test('ShardManager: searchBatch reads each shard once', async () => {
+  const { manager, storage } = makeManager({ maxPerShard: 5, maxLoaded: 1 })
+
+  for (let i = 0; i < 20; i++) {
+    await manager.insert(`v${i}`, [i, 0, 0, 0], { i })
+  }
+  await manager.flush()
+
+  const queries = [[2, 0, 0, 0], [17, 0, 0, 0], [9, 0, 0, 0]]
+  const expected = []
+  for (const q of queries) {
+    expected.push((await manager.search(q, 3)).map((r) => r.id))
+  }
+
+  let reads = 0
+  const read = storage!.read.bind(storage)
+  storage!.read = (key) => {
+    if (key.startsWith('shard-')) reads++
+    return read(key)
+  }
+
+  const batch = await manager.searchBatch(queries, 3, { includeMetadata: true })
+  assertEquals(batch.map((results) => results.map((r) => r.id)), expected)
+  assertEquals(batch[1][0].metadata, { i: 17 })
+  // 4 shards, one stays loaded as the write shard
+  assertEquals(reads, 3)
+})
+
+Deno.test('ShardManager: searchBatch ranks documents in the same shard pass', async () => {
+  const { manager, storage } = makeManager({ maxPerShard: 4, maxLoaded: 1 })
+
+  for (let i = 0; i < 6; i++) {
+    await manager.insertDocument(`doc${i}`, [[i * 10, 0, 0, 0], [i * 10 + 3, 0, 0, 0]], { i })
+  }
+  await manager.insert('single', [25, 0, 0, 0], { i: -1 })
+  await manager.flush()
+
+  const queries = [[21, 0, 0, 0], [52, 0, 0, 0]]
+  const expected = []
+  for (const q of queries) {
+    expected.push((await manager.search(q, 3)).map((r) => [r.id, r.distance]))
+  }
+
+  let reads = 0
+  const read = storage!.read.bind(storage)
+  storage!.read = (key) => {
+    if (key.startsWith('shard-')) reads++
+    return read(key)
+  }
+
+  const batch = await manager.searchBatch(queries, 3, { includeMetadata: true })
+  assertEquals(batch.map((results) => results.map((r) => [r.id, r.distance])), expected)
+  assertEquals(batch[0].map((r) => r.metadata), [{ i: 2 }, { i: -1 }, { i: 1 }])
+  // 4 shards, one stays loaded as the write shard
+  assertEquals(reads, 3)
+})
+
+Deno.test('ShardManager: bulkInsert fills and writes whole shards', async () => {
+  const { manager, storage } = makeManager({ maxPerShard: 10, maxLoaded: 1 })
+  await manager.insert('first', [100, 0, 0, 0])
+
+  async function* generate() {
+    for (let i = 0; i < 35; i++) {
+      yield { id: `v${i}`, vector: [i, 0, 0, 0], metadata: { i } }
+    }
+  }
+
+  assertEquals(await manager.bulkInsert(generate()), 35)
+  assertEquals(manager.size, 36)
+  // The open shard is topped up first: 10 + 10 + 10 + 6
+  assertEquals(manager.shardCount, 4)
+
+  const keys = (await storage!.list()).filter((k) => k.startsWith('shard-'))
+  assertEquals(keys.length, 4)
+
+  const results = await manager.search([20, 0, 0, 0], 1, { includeMetadata: true })
+  assertEquals(results[0].id, 'v20')
+  assertEquals(results[0].metadata, { i: 20 })
+
+  await assertRejects(
+    () => manager.bulkInsert([{ id: 'v3', vector: [0, 0, 0, 0] }]),
+    Error,
+    'Duplicate ID',
+  )
+})
+
+Deno.test('ShardManager: bulkInsert with build workers writes standard shards', async () => {
+  const items = Array.from({ length: 170 }, (_, i) => ({
+    id: `v${i}`,
+    vector: [Math.cos(i), Math.sin(i), i / 170, 1],
+    metadata: { i },
+  }))
+
+  const build = async (buildWorkers: number) => {
+    const storage = new InMemoryStorage()
+    const manager = new ShardManager(
+      defaultHNSWConfig(4, { seed: 42 }),
+      defaultShardConfig({ maxVectorsPerShard: 50, maxLoadedShards: 1, buildWorkers }),
+      storage,
+    )
+    assertEquals(await manager.bulkInsert(items), 170)
+    return { manager, storage }
+  }
+
+  const serial = await build(0)
+  const parallel = await build(2)
+
+  assertEquals(parallel.manager.size, 170)
+  assertEquals(parallel.manager.shardCount, 4)
+  for (const key of ['shard-000000', 'shard-000001', 'shard-000002', 'shard-000003']) {
+    assertEquals(await parallel.storage.read(key), await serial.storage.read(key))
+  }
+
+  const results = await parallel.manager.search([Math.cos(7), Math.sin(7), 7 / 170, 1], 1, { includeMetadata: true })
+  assertEquals(results[0].id, 'v7')
+  assertEquals(results[0].metadata, { i: 7 })
+
+  // The last, partly filled shard keeps taking regular inserts
+  await parallel.manager.insert('extra', [0, 0, 0, 0])
+  assertEquals(parallel.manager.shardCount, 4)
+  await assertRejects(() => parallel.manager.bulkInsert([items[3]]), Error, 'Duplicate ID')
+})
+
+Deno.test('ShardManager: failed bulkInsert with build workers leaves a usable store', async () => {
+  const items = Array.from({ length: 400 }, (_, i) => ({ id: `v${i}`, vector: [Math.cos(i), Math.sin(i), i / 400, 1] }))
+  const storage = new InMemoryStorage()
+  const manager = new ShardManager(
+    defaultHNSWConfig(4, { seed: 42 }),
+    defaultShardConfig({ maxVectorsPerShard: 200, buildWorkers: 2 }),
+    storage,
+  )
+
+  // The duplicate lands in the third chunk while the first two are still building
+  await assertRejects(() => manager.bulkInsert([...items, { id: 'v1', vector: [0, 0, 0, 0] }]), Error, 'Duplicate ID')
+  assertEquals(manager.size, 400)
+  assertEquals(manager.shardCount, 2)
+  assert(await manager.get('v1'))
+  assertEquals((await manager.search([Math.cos(5), Math.sin(5), 5 / 400, 1], 1))[0].id, 'v5')
+
+  // A build that fails on the worker is rolled back, and its IDs can be inserted again
+  const unclonable = { id: 'bad', vector: [1, 1, 1, 1], metadata: { f: () => 0 } as unknown as Record<string, number> }
+  await assertRejects(() => manager.bulkInsert([unclonable]))
+  assertEquals(manager.size, 400)
+  assertEquals(manager.shardCount, 2)
+  await manager.bulkInsert([{ id: 'bad', vector: [1, 1, 1, 1] }])
+  assertEquals(manager.size, 401)
+  assertEquals(manager.shardCount, 3)
+  assertEquals((await manager.search([1, 1, 1, 1], 1))[0].id, 'bad')
+})
+
+Deno.test('ShardManager: search workers match main-thread results and see updates', async () => {
+  const items = Array.from({ length: 60 }, (_, i) => ({
+    id: `v${i}`,
+    vector: [Math.cos(i), Math.sin(i), i / 60, 1],
+    metadata: { even: i % 2 === 0 },
+  }))
+
+  const { manager: local } = makeManager({ maxPerShard: 10 })
+  await local.bulkInsert(items)
+
+  const storage = new InMemoryStorage()
+  const pooled = new ShardManager(
+    defaultHNSWConfig(4, { seed: 42 }),
+    defaultShardConfig({ maxVectorsPerShard: 10, maxLoadedShards: 2, searchWorkers: 2 }),
+    storage,
+  )
+  await pooled.bulkInsert(items)
+
+  try {
+    for (const i of [0, 17, 42]) {
+      const q = [Math.cos(i), Math.sin(i), i / 60, 1]
+      assertEquals(await pooled.search(q, 5), await local.search(q, 5))
+      assertEquals(
+        await pooled.search(q, 5, { filter: { even: true }, includeMetadata: true }),
+        await local.search(q, 5, { filter: { even: true }, includeMetadata: true }),
+      )
+    }
+
+    // Writes after the workers loaded a shard are picked up; the unflushed
+    // write shard is searched on this thread, then by its worker once flushed
+    await pooled.insert('new', [9, 9, 9, 9])
+    assertEquals((await pooled.search([9, 9, 9, 9], 1))[0].id, 'new')
+    await pooled.flush()
+    assertEquals((await pooled.search([9, 9, 9, 9], 1))[0].id, 'new')
+    await pooled.delete('new')
+    assert((await pooled.search([9, 9, 9, 9], 1))[0].id !== 'new')
+
+    // Callback filters run on the main thread
+    const byId = await pooled.search([1, 0, 0, 1], 3, { filter: (id) => id.endsWith('5') })
+    assert(byId.every((r) => r.id.endsWith('5')))
+  } finally {
+    await pooled.close()
+  }
+})
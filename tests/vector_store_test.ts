@@ -1,9 +1,11 @@
 import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
 import { assert } from 'https://deno.land/std@0.224.0/assert/assert.ts'
+import { assertAlmostEquals } from 'https://deno.land/std@0.224.0/assert/assert_almost_equals.ts'
 import { assertRejects } from 'https://deno.land/std@0.224.0/assert/assert_rejects.ts'
 import { VectorStore } from '../src/vector_store.ts'
 import { InMemoryStorage } from '../src/storage/in_memory_storage.ts'
 import { FileSystemStorage } from '../src/storage/file_system_storage.ts'
+import { readConfig, readHeader } from '../src/storage/serialization.ts'
 
 Deno.test('VectorStore: basic insert and search', async () => {
   const store = VectorStore.create({
@@ -51,6 +53,92 @@ Deno.test('VectorStore: delete', async () => {
   assertEquals(await store.delete('nonexistent'), false)
 })
 
+Deno.test('VectorStore: upsert', async () => {
+  const store = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+  })
+
+  await store.insert({ id: 'a', vector: [1, 0] })
+  await store.upsert([
+    { id: 'a', vector: [0, 1] },
+    { id: 'b', vector: [1, 0] },
+  ])
+
+  assertEquals(store.size, 2)
+  assertEquals((await store.search([0, 1], 1))[0].id, 'a')
+  assertEquals((await store.search([1, 0], 1))[0].id, 'b')
+})
+
+Deno.test('VectorStore: metadata is stored, searched and persisted', async () => {
+  const storage = new InMemoryStorage()
+  const store1 = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+    storage,
+  })
+
+  await store1.insert([
+    { id: 'a', vector: [1, 0], metadata: { title: 'A', tenant: 't1' } },
+    { id: 'b', vector: [0, 1] },
+  ])
+
+  const results = await store1.search([1, 0], 2, { includeMetadata: true })
+  assertEquals(results[0].metadata, { title: 'A', tenant: 't1' })
+  assertEquals(results[1].metadata, undefined)
+
+  const plain = await store1.search([1, 0], 1)
+  assertEquals(plain[0].metadata, undefined)
+
+  await store1.upsert({ id: 'b', vector: [0, 1], metadata: { title: 'B' } })
+  await store1.close()
+
+  const store2 = await VectorStore.open({ storage })
+  const a = await store2.get('a')
+  assertEquals(a!.metadata, { title: 'A', tenant: 't1' })
+  assertEquals(Array.from(a!.vector), [1, 0])
+  assertEquals((await store2.get('b'))!.metadata, { title: 'B' })
+  assertEquals(await store2.get('missing'), null)
+})
+
+Deno.test('VectorStore: search with a JSON metadata filter', async () => {
+  const store = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+    sharding: { maxVectorsPerShard: 2 },
+  })
+
+  await store.insert([
+    { id: 'a', vector: [1, 0], metadata: { tenant: 't1' } },
+    { id: 'b', vector: [0.9, 0.1], metadata: { tenant: 't2' } },
+    { id: 'c', vector: [0.8, 0.2], metadata: { tenant: 't1' } },
+  ])
+
+  // Filters arrive as plain JSON, e.g. from an HTTP request body
+  const filter = JSON.parse('{"tenant": {"$in": ["t1"]}}')
+  const results = await store.search([1, 0], 3, { filter })
+  assertEquals(results.map((r) => r.id), ['a', 'c'])
+})
+
+Deno.test('VectorStore: rangeSearch merges results across shards', async () => {
+  const store = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+    sharding: { maxVectorsPerShard: 3 },
+  })
+
+  const items = []
+  for (let i = 0; i < 10; i++) {
+    items.push({ id: `p${i}`, vector: [i, 0], metadata: { i } })
+  }
+  await store.insert(items)
+
+  // Squared L2: points within distance 2 of [4, 0]
+  const results = await store.rangeSearch([4, 0], 4, { includeMetadata: true })
+  assertEquals(results.map((r) => r.id).sort(), ['p2', 'p3', 'p4', 'p5', 'p6'])
+  assertEquals(results[0].id, 'p4')
+  assertEquals(results[0].metadata, { i: 4 })
+  for (let i = 1; i < results.length; i++) {
+    assert(results[i].distance >= results[i - 1].distance)
+  }
+})
+
 Deno.test('VectorStore: search with options', async () => {
   const store = VectorStore.create({
     hnsw: { dimensions: 2, seed: 42 },
@@ -73,6 +161,39 @@ Deno.test('VectorStore: search with options', async () => {
   assertEquals(withEf.length, 2)
 })
 
+Deno.test('VectorStore: score option reports L2, cosine similarity and dot product', async () => {
+  const l2 = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+    sharding: { maxVectorsPerShard: 2 },
+  })
+  await l2.insert([
+    { id: 'a', vector: [3, 4] },
+    { id: 'b', vector: [0, 2] },
+    { id: 'c', vector: [6, 8] },
+  ])
+  assertEquals((await l2.search([0, 0], 3)).map((r) => r.distance), [4, 25, 100])
+  const scored = await l2.search([0, 0], 3, { score: true })
+  assertEquals(scored.map((r) => [r.id, r.distance]), [['b', 2], ['a', 5], ['c', 10]])
+  assertEquals((await l2.rangeSearch([0, 0], 25, { score: true })).map((r) => r.distance), [2, 5])
+  assertEquals((await l2.searchBatch([[0, 0]], 1, { score: true }))[0][0].distance, 2)
+
+  const cos = VectorStore.create({ hnsw: { dimensions: 2, seed: 42, metric: 'cosine' } })
+  await cos.insert([
+    { id: 'same', vector: [2, 0] },
+    { id: 'orthogonal', vector: [0, 1] },
+    { id: 'opposite', vector: [-1, 0] },
+  ])
+  const similarities = await cos.search([1, 0], 3, { score: true })
+  assertEquals(similarities.map((r) => r.id), ['same', 'orthogonal', 'opposite'])
+  assertAlmostEquals(similarities[0].distance, 1, 1e-6)
+  assertAlmostEquals(similarities[1].distance, 0, 1e-6)
+  assertAlmostEquals(similarities[2].distance, -1, 1e-6)
+
+  const dot = VectorStore.create({ hnsw: { dimensions: 2, seed: 42, metric: 'inner_product' } })
+  await dot.insert([{ id: 'x', vector: [2, 3] }, { id: 'y', vector: [1, 0] }])
+  assertEquals((await dot.search([1, 1], 2, { score: true })).map((r) => r.distance), [5, 1])
+})
+
 Deno.test('VectorStore: requires dimensions', () => {
   try {
     VectorStore.create({})
@@ -201,3 +322,283 @@ Deno.test('VectorStore: open requires storage', async () => {
     'storage',
   )
 })
+
+Deno.test('VectorStore: open rejects mismatched dimensions', async () => {
+  const storage = new InMemoryStorage()
+  const store = VectorStore.create({ hnsw: { dimensions: 3 }, storage })
+  await store.insert({ id: 'a', vector: [1, 0, 0] })
+  await store.close()
+
+  await assertRejects(
+    () => VectorStore.open({ hnsw: { dimensions: 4 }, storage }),
+    Error,
+    'dimensions=3',
+  )
+})
+
+Deno.test('VectorStore: open infers config from storage', async () => {
+  const storage = new InMemoryStorage()
+  const store1 = VectorStore.create({
+    hnsw: { dimensions: 3, M: 8, metric: 'cosine', seed: 42 },
+    storage,
+  })
+  await store1.insert([
+    { id: 'a', vector: [1, 0, 0] },
+    { id: 'b', vector: [0, 1, 0] },
+  ])
+  await store1.close()
+
+  const store2 = await VectorStore.open({ storage, hnsw: { efSearch: 100 } })
+  assertEquals(store2.size, 2)
+  assertEquals((await store2.search([0, 1, 0], 1))[0].id, 'b')
+
+  await assertRejects(
+    () => VectorStore.open({ storage, hnsw: { M: 16 } }),
+    Error,
+    'M=8',
+  )
+
+  // Stores without a manifest fall back to the shard header
+  await storage.delete('manifest')
+  const store3 = await VectorStore.open({ storage })
+  assertEquals(store3.size, 2)
+  await store3.insert({ id: 'c', vector: [0, 0, 1] })
+  assertEquals((await store3.search([0, 0, 1], 1))[0].id, 'c')
+})
+
+Deno.test('VectorStore: open applies runtime overrides to persisted shards', async () => {
+  const storage = new InMemoryStorage()
+  const store1 = VectorStore.create({ hnsw: { dimensions: 2, efSearch: 10, seed: 42 }, storage })
+  await store1.insert([
+    { id: 'a', vector: [1, 0] },
+    { id: 'b', vector: [0, 1] },
+    { id: 'c', vector: [1, 1] },
+  ])
+  await store1.close()
+
+  // Eager deletes free the slot the next insert takes, rather than leaving a tombstone
+  const store2 = await VectorStore.open({ storage, hnsw: { efSearch: 300, eagerDelete: true } })
+  assertEquals(await store2.delete('a'), true)
+  await store2.insert({ id: 'd', vector: [2, 2] })
+  await store2.close()
+
+  const data = (await storage.read('shard-000000'))!
+  assertEquals(readHeader(data).count, 3)
+  assertEquals(readHeader(data).deletedCount, 0)
+  assertEquals(readConfig(data).efSearch, 300)
+  assertEquals(readConfig(data).eagerDelete, true)
+
+  // mL and pqTrainingSize are not persisted, so the values a store was built with may be given again
+  const store3 = await VectorStore.open({ storage, hnsw: { mL: 0.3, pqTrainingSize: 64 } })
+  assertEquals(store3.size, 3)
+  await store3.close()
+})
+
+Deno.test('VectorStore: packed fingerprints keep their bits through storage and the write-ahead log', async () => {
+  const storage = new InMemoryStorage()
+  const fingerprints = {
+    a: [0xFFFFFFFF, 0x7FC00001, 0],
+    b: [0x0000FFFF, 0, 0x80000000],
+  }
+  const store1 = VectorStore.create({ hnsw: { dimensions: 3, metric: 'jaccard', seed: 42 }, sharding: { writeAheadLog: true }, storage })
+  await store1.insert({ id: 'a', vector: fingerprints.a })
+  await store1.close()
+  const store2 = await VectorStore.open({ storage, sharding: { writeAheadLog: true } })
+  // Logged, not yet flushed into a shard
+  await store2.insert({ id: 'b', vector: new Uint32Array(fingerprints.b) })
+
+  const reopened = await VectorStore.open({ storage, sharding: { writeAheadLog: true } })
+  for (const [id, words] of Object.entries(fingerprints)) {
+    const record = (await reopened.get(id))!
+    assertEquals(Array.from(new Uint32Array(record.vector.buffer, record.vector.byteOffset, 3)), words)
+  }
+  const results = await reopened.search(fingerprints.b, 2)
+  assertEquals(results.map((r) => r.id), ['b', 'a'])
+  assertAlmostEquals(results[1].distance, 1 - 16 / 43, 1e-9)
+})
+
+Deno.test('VectorStore: quantization is persisted and enforced on open', async () => {
+  const storage = new InMemoryStorage()
+  const store1 = VectorStore.create({
+    hnsw: { dimensions: 3, seed: 42, quantization: 'int8' },
+    storage,
+  })
+  await store1.insert([
+    { id: 'a', vector: [1, 0, 0] },
+    { id: 'b', vector: [0, 1, 0] },
+  ])
+  await store1.close()
+
+  const store2 = await VectorStore.open({ storage })
+  assertEquals((await store2.search([0, 0.9, 0.1], 1))[0].id, 'b')
+
+  await assertRejects(
+    () => VectorStore.open({ storage, hnsw: { quantization: 'none' } }),
+    Error,
+    'quantization=int8',
+  )
+})
+
+Deno.test('VectorStore: PQ rerank vectors live under a separate storage key', async () => {
+  const storage = new InMemoryStorage()
+  const hnsw = { dimensions: 8, seed: 42, quantization: 'pq' as const, pqSubspaces: 2, pqTrainingSize: 50, rerank: true }
+  const store1 = VectorStore.create({ hnsw, storage })
+  const vectors = Array.from({ length: 80 }, (_, i) => Array.from({ length: 8 }, (_, d) => Math.sin(i * 7 + d)))
+  await store1.insert(vectors.map((vector, i) => ({ id: `v${i}`, vector })))
+  await store1.close()
+
+  assertEquals((await storage.list()).filter((key) => key.startsWith('vectors-')), ['vectors-000000'])
+
+  // Reopened shards hold only codes, yet reranked distances stay exact
+  const store2 = await VectorStore.open({ storage })
+  const [top] = await store2.search(vectors[42], 1)
+  assertEquals(top.id, 'v42')
+  assertEquals(top.distance, 0)
+  await store2.close()
+})
+
+Deno.test('VectorStore: open empty storage requires dimensions', async () => {
+  await assertRejects(
+    () => VectorStore.open({ storage: new InMemoryStorage() }),
+    Error,
+    'dimensions',
+  )
+})
+
+Deno.test('VectorStore: multi-vector documents are searched per document', async () => {
+  const store = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+    sharding: { maxVectorsPerShard: 3 },
+  })
+  await store.insert([
+    { id: 'doc1', vectors: [[0, 0], [10, 0], [20, 0]], metadata: { lang: 'en' } },
+    { id: 'doc2', vectors: [[1, 0], [9, 0]], metadata: { lang: 'de' } },
+    { id: 'single', vector: [5, 0] },
+  ])
+  assertEquals(store.size, 6)
+
+  // Each document appears once, through its nearest vector
+  const results = await store.search([10, 0], 3, { includeVectors: true, includeMetadata: true })
+  assertEquals(results.map((r) => [r.id, r.distance]), [['doc1', 0], ['doc2', 1], ['single', 25]])
+  assertEquals(results[0].vectors?.length, 3)
+  assertEquals(results[0].metadata, { lang: 'en' })
+
+  // Callback filters see document IDs
+  assertEquals((await store.search([10, 0], 3, { filter: (id) => id !== 'doc1' })).map((r) => r.id), ['doc2', 'single'])
+  assertEquals((await store.search([10, 0], 3, { filter: { lang: 'de' } })).map((r) => r.id), ['doc2'])
+  assertEquals((await store.rangeSearch([10, 0], 30)).map((r) => r.id), ['doc1', 'doc2', 'single'])
+  assertEquals((await store.searchBatch([[10, 0]], 2))[0].map((r) => r.id), ['doc1', 'doc2'])
+
+  const doc = await store.get('doc2')
+  assertEquals(doc?.vectors, [new Float32Array([1, 0]), new Float32Array([9, 0])])
+  assertEquals(doc?.metadata, { lang: 'de' })
+
+  await assertRejects(() => store.insert({ id: 'doc1', vector: [0, 0] }), Error, 'Duplicate ID')
+  await assertRejects(() => store.insert({ id: 'single', vectors: [[0, 0]] }), Error, 'Duplicate ID')
+  await assertRejects(() => store.insert({ id: 'both', vector: [0, 0], vectors: [[0, 0]] }), Error, 'exactly one')
+})
+
+Deno.test('VectorStore: searchMulti aggregates by max or sum of max', async () => {
+  const store = VectorStore.create({ hnsw: { dimensions: 2, seed: 42 } })
+  await store.insert([
+    // One exact match for the first query vector, nothing near the second
+    { id: 'one-hit', vectors: [[0, 0], [100, 100]] },
+    // Close, but not exact, to both
+    { id: 'both-close', vectors: [[1, 0], [10, 1]] },
+  ])
+
+  const queries = [[0, 0], [10, 0]]
+  const sumOfMax = await store.searchMulti(queries, 2)
+  assertEquals(sumOfMax.map((r) => [r.id, r.distance]), [['both-close', 2], ['one-hit', 100]])
+
+  const max = await store.searchMulti(queries, 2, { aggregate: 'max' })
+  assertEquals(max.map((r) => [r.id, r.distance]), [['one-hit', 0], ['both-close', 1]])
+
+  // Scores convert each query vector's best match: 1 + 1
+  assertEquals((await store.searchMulti(queries, 1, { score: true }))[0].distance, 2)
+})
+
+Deno.test('VectorStore: searchMulti ranks by the reported score', async () => {
+  const store = VectorStore.create({ hnsw: { dimensions: 2, seed: 42 } })
+  await store.insert([
+    // L2 distances 0, 0 and 3 to the queries below
+    { id: 'a', vectors: [[0, 0], [10, 10]] },
+    // L2 distance 1.25 to each query
+    { id: 'b', vectors: [[0, 1.25], [10, 11.25], [3, 1.25]] },
+  ])
+
+  const queries = [[0, 0], [10, 10], [3, 0]]
+  // Squared distances sum to 9 for a but 4.6875 for b, while true distances sum to 3 and 3.75
+  const squared = await store.searchMulti(queries, 2)
+  assertEquals(squared.map((r) => [r.id, r.distance]), [['b', 4.6875], ['a', 9]])
+  const scored = await store.searchMulti(queries, 2, { score: true })
+  assertEquals(scored.map((r) => [r.id, r.distance]), [['a', 3], ['b', 3.75]])
+})
+
+Deno.test('VectorStore: searchMulti ranks similarity scores highest first', async () => {
+  const store = VectorStore.create({ hnsw: { dimensions: 2, metric: 'inner_product', seed: 42 } })
+  await store.insert([
+    { id: 'small', vectors: [[1, 0], [0, 1]] },
+    { id: 'large', vectors: [[2, 0], [0, 3]] },
+  ])
+
+  const scored = await store.searchMulti([[1, 0], [0, 1]], 2, { score: true })
+  assertEquals(scored.map((r) => [r.id, r.distance]), [['large', 5], ['small', 2]])
+})
+
+Deno.test('VectorStore: upsert and delete replace all vectors of a document across shards', async () => {
+  const storage = new InMemoryStorage()
+  const store = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+    sharding: { maxVectorsPerShard: 2, writeAheadLog: true },
+    storage,
+  })
+  await store.insert({ id: 'doc', vectors: [[0, 0], [1, 0], [2, 0]] })
+  await store.insert({ id: 'other', vector: [50, 50] })
+  assertEquals(store.size, 4)
+
+  await store.upsert({ id: 'doc', vectors: [[30, 30]] })
+  assertEquals(store.size, 2)
+  assertEquals((await store.get('doc'))?.vectors, [new Float32Array([30, 30])])
+  assertEquals((await store.search([0, 0], 2)).map((r) => r.id), ['doc', 'other'])
+
+  // A single vector replaces the document, and vice versa
+  await store.upsert({ id: 'doc', vector: [1, 1] })
+  assertEquals((await store.get('doc'))?.vectors, undefined)
+  await store.upsert({ id: 'other', vectors: [[2, 2], [3, 3]] })
+  assertEquals(store.size, 3)
+
+  // The write-ahead log replays document operations
+  const reopened = await VectorStore.open({
+    hnsw: { dimensions: 2, seed: 42 },
+    storage,
+    sharding: { maxVectorsPerShard: 2, writeAheadLog: true },
+  })
+  assertEquals(reopened.size, 3)
+  assertEquals((await reopened.get('other'))?.vectors?.length, 2)
+
+  assertEquals(await reopened.delete('other'), true)
+  assertEquals(await reopened.get('other'), null)
+  assertEquals(reopened.size, 1)
+  await reopened.flush()
+
+  const again = await VectorStore.open({ storage })
+  assertEquals((await again.search([3, 3], 5)).map((r) => r.id), ['doc'])
+})
+
+Deno.test('VectorStore: bulkInsert splits documents into their vectors', async () => {
+  const store = VectorStore.create({
+    hnsw: { dimensions: 2, seed: 42 },
+    sharding: { maxVectorsPerShard: 4 },
+  })
+  const inserted = await store.bulkInsert([
+    { id: 'a', vectors: [[0, 0], [1, 1], [2, 2]] },
+    { id: 'b', vectors: [[5, 5], [6, 6], [7, 7]] },
+    { id: 'c', vector: [9, 9] },
+  ])
+  // Counted in vectors, like size
+  assertEquals(inserted, 7)
+  assertEquals(store.size, 7)
+  assertEquals((await store.search([6, 6], 3)).map((r) => r.id), ['b', 'c', 'a'])
+  await assertRejects(() => store.bulkInsert([{ id: 'a', vector: [0, 0] }]), Error, 'Duplicate ID')
+})
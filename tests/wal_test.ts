@@ -0,0 +1,63 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/assert_equals.ts'
+import { decodeWal, encodeWalRecord } from '../src/storage/wal.ts'
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((n, p) => n + p.byteLength, 0)
+  const out = new Uint8Array(total)
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.byteLength
+  }
+  return out
+}
+
+Deno.test('WAL: roundtrip insert and delete records', () => {
+  const data = concat([
+    encodeWalRecord({ op: 'insert', id: 'a', vector: new Float32Array([1, 2, 3]) }),
+    encodeWalRecord({ op: 'delete', id: 'a' }),
+    encodeWalRecord({ op: 'insert', id: '日本語', vector: new Float32Array([4, 5, 6]) }),
+    encodeWalRecord({ op: 'upsert', id: 'b', vector: new Float32Array([7, 8, 9]) }),
+  ])
+
+  const records = decodeWal(data)
+  assertEquals(records.length, 4)
+  assertEquals(records[0].op, 'insert')
+  assertEquals(records[0].id, 'a')
+  if (records[0].op === 'insert') {
+    assertEquals(Array.from(records[0].vector), [1, 2, 3])
+  }
+  assertEquals(records[1], { op: 'delete', id: 'a' })
+  assertEquals(records[2].id, '日本語')
+  assertEquals(records[3].op, 'upsert')
+})
+
+Deno.test('WAL: metadata roundtrip', () => {
+  const data = encodeWalRecord({
+    op: 'upsert',
+    id: 'doc',
+    vector: new Float32Array([1, 2]),
+    metadata: { title: 'Doc', year: 2024 },
+  })
+
+  const [record] = decodeWal(data)
+  assertEquals(record.op, 'upsert')
+  if (record.op !== 'delete') {
+    assertEquals(record.metadata, { title: 'Doc', year: 2024 })
+    assertEquals(Array.from(record.vector), [1, 2])
+  }
+})
+
+Deno.test('WAL: empty log decodes to no records', () => {
+  assertEquals(decodeWal(new Uint8Array(0)), [])
+})
+
+Deno.test('WAL: torn trailing record is ignored', () => {
+  const first = encodeWalRecord({ op: 'insert', id: 'a', vector: new Float32Array([1, 2]) })
+  const second = encodeWalRecord({ op: 'insert', id: 'b', vector: new Float32Array([3, 4]) })
+  const data = concat([first, second]).subarray(0, first.byteLength + second.byteLength - 3)
+
+  const records = decodeWal(data)
+  assertEquals(records.length, 1)
+  assertEquals(records[0].id, 'a')
+})